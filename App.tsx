@@ -4,41 +4,237 @@ import { v4 as uuidv4 } from 'uuid';
 import { 
   ReferenceImage, 
   LoadingStep, 
-  calculateBaseSizeScore, 
-  calculateProximityWeight,
-  AppSettings
+  scoreReferences,
+  getAspectDimensions,
+  DEFAULT_INFLUENCE,
+  DEFAULT_CUSTOM_FALLOFF,
+  InfluenceOverride,
+  InfluenceFieldSettings,
+  FalloffModel,
+  evaluateFalloff,
+  calculateContributions,
+  SynthesisEmitter,
+  ImageModel,
+  AspectRatio,
+  AppSettings,
+  BoardState,
+  SavedBoard,
+  BoardSummary,
+  SynthesisSource,
+  ViewportTransform,
+  BoardGroup,
+  getGroupBounds,
+  getBounds,
+  Rect,
+  ImageEdit,
+  isTextNode
 } from './types';
-import { geminiService } from './services/geminiService';
+import { getImageProvider, generateWithFallback, IMAGE_PROVIDERS } from './services/imageProvider';
+import { AuthError, SynthesisError, errorMessage, withRetry } from './services/errors';
+import { storageService, summarizeBoard } from './services/storageService';
+import { archiveService } from './services/archiveService';
 import ImageCard from './components/ImageCard';
+import BoardLibrary from './components/BoardLibrary';
+import InfluenceControls from './components/InfluenceControls';
+import FalloffCurveEditor from './components/FalloffCurveEditor';
+import EmitterCard, { EmitterCapture } from './components/EmitterCard';
+import EmitterDetails from './components/EmitterDetails';
+import PromptReviewPanel from './components/PromptReviewPanel';
+import BlendPresetEditor from './components/BlendPresetEditor';
+import ReferenceThumbnail from './components/ReferenceThumbnail';
+import GroupFrame from './components/GroupFrame';
+import SelectionBox from './components/SelectionBox';
+import CameraCapture from './components/CameraCapture';
+import ImageEditor from './components/ImageEditor';
+import MaskEditor from './components/MaskEditor';
+import ExportDialog, { ExportTarget } from './components/ExportDialog';
+import { renderEditedImage } from './services/imageEdit';
+import { CameraSession, getCameraSource } from './services/camera';
+import { DEFAULT_INGEST_MAX_EDGE, INGEST_MAX_EDGE_OPTIONS, IngestError, IngestedImage, dataUrlMimeType, ingestDataUrl, ingestImage } from './services/ingest';
+import { PASTE_OFFSET, cardClipboard, cloneCards } from './services/clipboard';
+import { GRID_SIZE, SnapGuide, snapRect, snapSizeToGrid } from './services/snapping';
+import { AlignMode, ArrangeItem, ArrangeResult, alignItems, distributeItems, tidyGrid, intersects } from './services/arrange';
+import { BUILT_IN_BLEND_PRESETS, DEFAULT_BLEND_PRESET_ID, ensureBandIds, resolveBlendPreset } from './services/blendPresets';
+import LineageOverlay from './components/LineageOverlay';
+import GenealogyPanel from './components/GenealogyPanel';
+import { buildLineageIndex } from './services/lineage';
+import { DocumentSnapshot, EMPTY_HISTORY, HistoryState, recordAction, undoAction, redoAction, jumpToPosition } from './services/history';
+import HistoryPanel from './components/HistoryPanel';
+import JobsTray from './components/JobsTray';
+import { SynthesisJob, synthesisQueue } from './services/jobQueue';
+
+const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  model: 'gemini-2.5-flash-image',
+  aspectRatio: '1:1',
+  influenceRadius: 1000,
+  falloff: 'linear',
+  distanceMode: 'center',
+  customFalloff: DEFAULT_CUSTOM_FALLOFF,
+  localBackend: {
+    endpoint: 'http://127.0.0.1:7860',
+    apiStyle: 'a1111',
+    sampler: 'Euler a',
+    steps: 25,
+    promptProvider: 'gemini'
+  },
+  reviewPrompts: false,
+  maxConcurrentJobs: 2,
+  fallbackModels: ['imagen-4.0-generate-001'],
+  blendPresets: BUILT_IN_BLEND_PRESETS,
+  blendPresetId: DEFAULT_BLEND_PRESET_ID,
+  snapToGrid: false,
+  smartGuides: true,
+  ingestMaxEdge: DEFAULT_INGEST_MAX_EDGE
+};
+// 吸着距離（画面上のpx）。ズームに応じてキャンバス座標に換算する
+const SNAP_THRESHOLD = 6;
+const MODEL_LABELS: Record<ImageModel, string> = {
+  'gemini-2.5-flash-image': 'Gemini 2.5 Flash',
+  'gemini-3-pro-image-preview': 'Gemini 3 Pro',
+  'imagen-4.0-generate-001': 'Imagen 4'
+};
+
+const describeRetry = (attempt: number, delayMs: number, error: SynthesisError) =>
+  `${error.kind === 'rate-limit' ? 'Rate limited' : 'Connection issue'} · retry ${attempt} in ${Math.ceil(delayMs / 1000)}s`;
+
+const FALLOFF_OPTIONS: { id: FalloffModel; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'gaussian', label: 'Gaussian' },
+  { id: 'inverse-square', label: 'Inv. Square' },
+  { id: 'step', label: 'Step' },
+  { id: 'custom', label: 'Custom' }
+];
+
+// 選択中の減衰カーブをサンプリングして影響範囲のグラデーションを組み立てる（強い=赤、弱い=緑）
+const buildFalloffGradient = (field: InfluenceFieldSettings): string => {
+  const samples = 16;
+  const stops = Array.from({ length: samples }, (_, i) => {
+    const t = i / samples;
+    const w = evaluateFalloff(field.falloff, t, field.customFalloff);
+    return `hsla(${Math.round((1 - w) * 120)}, 85%, 55%, ${(w * 0.4).toFixed(3)}) ${(t * 100).toFixed(1)}%`;
+  });
+  const last = evaluateFalloff(field.falloff, 0.995, field.customFalloff);
+  stops.push(`hsla(${Math.round((1 - last) * 120)}, 85%, 55%, ${(last * 0.4).toFixed(3)}) 99.5%`, 'transparent 100%');
+  return `radial-gradient(circle closest-side, ${stops.join(', ')})`;
+};
+
+const DEFAULT_TRANSFORM: ViewportTransform = { x: 0, y: 0, scale: 0.8 };
+const DEFAULT_BOARD_NAME = 'Untitled Board';
+// エミッターの生成結果はエミッターの下に少しずつずらして積み重ねる
+const EMITTER_STACK_GAP = 40;
+const EMITTER_STACK_OFFSET = 16;
+const AUTOSAVE_DELAY = 800;
+const VARIATION_OPTIONS = [1, 2, 3, 4];
+const VARIANT_GAP = 24;
+const TEXT_NODE_SIZE = { width: 240, height: 120 };
+// 切り抜き・回転したカードは、元画像ではなく実際に送った画像を参照元として記録する
+const sourceThumbnail = (img: ReferenceImage) => img.edit && img.payload ? img.payload : img.base64;
+// 選択全体の拡大縮小でも、カードを個別に縮められる最小幅より小さくしない
+const MIN_CARD_WIDTH = 80;
+const ALIGN_OPTIONS: { mode: AlignMode; label: string }[] = [
+  { mode: 'left', label: 'Left' },
+  { mode: 'center', label: 'Center' },
+  { mode: 'right', label: 'Right' },
+  { mode: 'top', label: 'Top' },
+  { mode: 'middle', label: 'Middle' },
+  { mode: 'bottom', label: 'Bottom' }
+];
+
+// バリエーションは合成ターゲットを中心に並べる（2枚は横並び、3〜4枚は2×2）
+// テキスト入力・選択欄・contenteditableにフォーカスがあるときは、キー操作をブラウザ標準に任せる
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || !!target.closest('input,textarea,select'));
+
+const layoutVariants = (count: number, placement: { x: number; y: number }, width: number, height: number) => {
+  if (count <= 1) return [placement];
+  const cols = Math.min(count, 2);
+  const rows = Math.ceil(count / cols);
+  const originX = placement.x + width / 2 - (cols * width + (cols - 1) * VARIANT_GAP) / 2;
+  const originY = placement.y + height / 2 - (rows * height + (rows - 1) * VARIANT_GAP) / 2;
+  return Array.from({ length: count }, (_, i) => ({
+    x: originX + (i % cols) * (width + VARIANT_GAP),
+    y: originY + Math.floor(i / cols) * (height + VARIANT_GAP)
+  }));
+};
 
 const App: React.FC = () => {
   const [images, setImages] = useState<ReferenceImage[]>([]);
+  const [emitters, setEmitters] = useState<SynthesisEmitter[]>([]);
+  const [groups, setGroups] = useState<BoardGroup[]>([]);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-  const [loadingStep, setLoadingStep] = useState<LoadingStep>(LoadingStep.IDLE);
+  const [selectedEmitterId, setSelectedEmitterId] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<SynthesisJob[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
   const [genSize, setGenSize] = useState<number>(400); 
-  const [settings, setSettings] = useState<AppSettings>({ 
-    model: 'gemini-2.5-flash-image',
-    aspectRatio: '1:1',
-    influenceRadius: 1000 
-  });
+  const [variationCount, setVariationCount] = useState<number>(1);
+  const [promptReview, setPromptReview] = useState<{
+    title: string;
+    prompt: string;
+    sources: SynthesisSource[];
+    isRegenerating: boolean;
+    canRegenerate: boolean;
+  } | null>(null);
+  const [showLineage, setShowLineage] = useState(false);
+  const [showPresetEditor, setShowPresetEditor] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  const [editingImageId, setEditingImageId] = useState<string | null>(null);
+  const [maskingImageId, setMaskingImageId] = useState<string | null>(null);
+  // recipeId: レシピシートにする合成済みカード
+  const [exportDialog, setExportDialog] = useState<{ target: ExportTarget; recipeId?: string } | null>(null);
+  // ライブカードがある間だけ開いておくカメラ
+  const liveCamera = useRef<CameraSession | null>(null);
+  // ライブカードのカメラは利用者が開始・再開したときだけ開く（ボードを開いただけでは開かない）
+  const [liveCameraOn, setLiveCameraOn] = useState(false);
+  const reviewChain = useRef<Promise<unknown>>(Promise.resolve());
+  const promptReviewHandlers = useRef<{ resolve: (prompt: string | null) => void; regenerate?: () => Promise<string> } | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [apiKey, setApiKey] = useState<string>(process.env.NEXT_PUBLIC_GEMINI_API_KEY || "");
   
-  const [transform, setTransform] = useState({ x: 0, y: 0, scale: 0.8 });
+  const [transform, setTransform] = useState<ViewportTransform>(DEFAULT_TRANSFORM);
   const [isPanning, setIsPanning] = useState(false);
+  // pan: 空白のドラッグで視点移動 / select: 空白のドラッグで範囲選択（Shift+ドラッグはどちらでも範囲選択）
+  const [canvasTool, setCanvasTool] = useState<'pan' | 'select'>('pan');
+  const [marquee, setMarquee] = useState<{ start: { x: number; y: number }; current: { x: number; y: number }; base: Set<string> } | null>(null);
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+  const snapBypass = useRef(false);
+  // 吸着の判定に使う、描画中のカードとエミッター
+  const snapTargets = useRef<{ images: ReferenceImage[]; emitters: SynthesisEmitter[]; scale: number }>({ images: [], emitters: [], scale: 1 });
+  // ドラッグ開始時の各カードの位置。選択全体の移動は常にここからの差分で決める
+  const cardDragStart = useRef<{ id: string; positions: Map<string, { x: number; y: number }> } | null>(null);
+  const selectionResizeStart = useRef<{ origin: { x: number; y: number }; rects: Map<string, Rect>; minScale: number } | null>(null);
   const [isOverBoard, setIsOverBoard] = useState(false);
   const boardRef = useRef<HTMLDivElement>(null);
   const lastMousePos = useRef({ x: 0, y: 0 });
 
-  const [history, setHistory] = useState<ReferenceImage[][]>([]);
+  const [boards, setBoards] = useState<BoardSummary[]>([]);
+  const [currentBoardId, setCurrentBoardId] = useState<string | null>(null);
+  const [currentBoardName, setCurrentBoardName] = useState<string>(DEFAULT_BOARD_NAME);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [isBoardRestored, setIsBoardRestored] = useState(false);
+  const autosaveTimer = useRef<number | null>(null);
+  // 未保存の新規ボードに割り当てたID。最初の保存が終わる前に次の保存が走っても同じボードに書き込む
+  const newBoardId = useRef<string | null>(null);
+  // 保存は順に行い、古い盤面が新しい盤面を上書きしないようにする
+  const saveChain = useRef<Promise<unknown>>(Promise.resolve());
+
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [showHistory, setShowHistory] = useState(false);
+  // 履歴に記録する「操作直前の状態」は常に最新の描画結果から取る
+  const documentRef = useRef<DocumentSnapshot>({ images: [], emitters: [], groups: [], settings: DEFAULT_SETTINGS });
+  documentRef.current = { images, emitters, groups, settings };
+  // マウスを押してから離すまでを一つの操作として履歴にまとめる。snapshotは押した時点の盤面
+  const activeGesture = useRef<{ id: number; snapshot: DocumentSnapshot; recorded: boolean } | null>(null);
+  const gestureCount = useRef(0);
   const [contextMenu, setContextMenu] = useState<{ 
     x: number, 
     y: number, 
     canvasX: number, 
     canvasY: number,
-    targetImageId?: string 
+    targetImageId?: string,
+    targetEmitterId?: string
   } | null>(null);
 
   // 初期状態をfalseにする
@@ -69,6 +265,204 @@ const App: React.FC = () => {
     checkKey();
   }, [checkKey]);
 
+  const buildBoardState = useCallback((): BoardState => ({
+    // 生成中のプレースホルダーとFileオブジェクトは保存しない
+    images: images.filter(img => !img.isGenerating).map(({ file, ...img }) => img),
+    settings,
+    transform,
+    emitters,
+    groups
+  }), [images, settings, transform, emitters, groups]);
+
+  const applyBoard = useCallback((board: SavedBoard | null) => {
+    // 別のボードへ切り替えるときは、前のボードのプレースホルダーを埋めるジョブを止める
+    synthesisQueue.cancelAll();
+    setImages(board?.state.images || []);
+    setSettings({
+      ...DEFAULT_SETTINGS,
+      ...board?.state.settings,
+      localBackend: { ...DEFAULT_SETTINGS.localBackend, ...board?.state.settings.localBackend },
+      blendPresets: ensureBandIds(board?.state.settings.blendPresets || DEFAULT_SETTINGS.blendPresets)
+    });
+    setTransform(board?.state.transform || DEFAULT_TRANSFORM);
+    setEmitters(board?.state.emitters || []);
+    setGroups(board?.state.groups || []);
+    setSelectedEmitterId(null);
+    setLiveCameraOn(false);
+    setCurrentBoardId(board?.id || null);
+    newBoardId.current = null;
+    setCurrentBoardName(board?.name || DEFAULT_BOARD_NAME);
+    setSelectedIds(new Set());
+    setHistory(EMPTY_HISTORY);
+    storageService.setLastBoardId(board?.id || null);
+  }, []);
+
+  const refreshBoards = useCallback(async () => {
+    try {
+      setBoards(await storageService.getBoardSummaries());
+    } catch (e) {
+      console.error("Failed to load board library", e);
+    }
+  }, []);
+
+  // 起動時に最後に開いていたボードを復元する
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const lastId = storageService.getLastBoardId();
+        const board = lastId ? await storageService.getBoard(lastId) : null;
+        if (board) applyBoard(board);
+        await refreshBoards();
+      } catch (e) {
+        console.error("Board restore failed", e);
+      } finally {
+        setIsBoardRestored(true);
+      }
+    };
+    restore();
+  }, [applyBoard, refreshBoards]);
+
+  const persistBoard = useCallback(async () => {
+    if (autosaveTimer.current !== null) {
+      window.clearTimeout(autosaveTimer.current);
+      autosaveTimer.current = null;
+    }
+    const state = buildBoardState();
+    // 空の新規ボードはライブラリに登録しない
+    if (!currentBoardId && state.images.length === 0) return;
+    let id = currentBoardId;
+    if (!id) {
+      // IDは保存の完了を待たずに確定させる
+      id = newBoardId.current || (newBoardId.current = uuidv4());
+      setCurrentBoardId(id);
+      storageService.setLastBoardId(id);
+    }
+    const save = saveChain.current.catch(() => undefined).then(() => storageService.saveBoard(currentBoardName, state, id));
+    saveChain.current = save;
+    const saved = await save;
+    setBoards(prev => [...prev.filter(b => b.id !== saved.id), summarizeBoard(saved)]);
+  }, [buildBoardState, currentBoardId, currentBoardName]);
+
+  // 盤面の変更をデバウンスして自動保存する
+  useEffect(() => {
+    if (!isBoardRestored) return;
+    if (autosaveTimer.current !== null) window.clearTimeout(autosaveTimer.current);
+    autosaveTimer.current = window.setTimeout(() => {
+      autosaveTimer.current = null;
+      persistBoard().catch(e => console.error("Autosave failed", e));
+    }, AUTOSAVE_DELAY);
+    return () => {
+      if (autosaveTimer.current !== null) window.clearTimeout(autosaveTimer.current);
+      autosaveTimer.current = null;
+    };
+  }, [isBoardRestored, persistBoard]);
+
+  const persistBoardRef = useRef(persistBoard);
+  persistBoardRef.current = persistBoard;
+
+  // タブを閉じる・隠すときは、デバウンス待ちの変更をすぐに保存する
+  useEffect(() => {
+    const flush = () => {
+      if (autosaveTimer.current === null) return;
+      persistBoardRef.current().catch(e => console.error("Autosave failed", e));
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  const handleCreateBoard = async () => {
+    await persistBoard().catch(e => console.error("Autosave failed", e));
+    applyBoard(null);
+    setShowLibrary(false);
+  };
+
+  const handleOpenBoard = async (id: string) => {
+    if (id === currentBoardId) {
+      setShowLibrary(false);
+      return;
+    }
+    try {
+      await persistBoard();
+      const board = await storageService.getBoard(id);
+      if (!board) throw new Error("Board not found.");
+      applyBoard(board);
+      setShowLibrary(false);
+    } catch (e) {
+      setError(errorMessage(e, "Failed to open board."));
+    }
+  };
+
+  const handleRenameBoard = async (id: string, name: string) => {
+    try {
+      if (id === currentBoardId) {
+        // 表示中のボードは最新の盤面ごと保存する
+        setCurrentBoardName(name);
+        const saved = await storageService.saveBoard(name, buildBoardState(), id);
+        setBoards(prev => [...prev.filter(b => b.id !== id), summarizeBoard(saved)]);
+      } else {
+        const saved = await storageService.renameBoard(id, name);
+        setBoards(prev => [...prev.filter(b => b.id !== id), summarizeBoard(saved)]);
+      }
+    } catch (e) {
+      setError(errorMessage(e, "Failed to rename board."));
+    }
+  };
+
+  const handleDuplicateBoard = async (id: string) => {
+    try {
+      if (id === currentBoardId) await persistBoard();
+      const copy = await storageService.duplicateBoard(id);
+      setBoards(prev => [...prev, summarizeBoard(copy)]);
+    } catch (e) {
+      setError(errorMessage(e, "Failed to duplicate board."));
+    }
+  };
+
+  const handleExportBoard = async (id: string) => {
+    try {
+      if (id === currentBoardId) await persistBoard();
+      const board = await storageService.getBoard(id);
+      if (!board) throw new Error("Board not found.");
+      const archive = await archiveService.exportBoard(board);
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = archiveService.getArchiveFileName(board);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(errorMessage(e, "Failed to export board."));
+    }
+  };
+
+  const handleImportBoard = async (file: File) => {
+    try {
+      const imported = await archiveService.importBoard(file);
+      setBoards(prev => [...prev.filter(b => b.id !== imported.id), summarizeBoard(imported)]);
+    } catch (e) {
+      setError(errorMessage(e, "Failed to import board."));
+    }
+  };
+
+  const handleDeleteBoard = async (id: string) => {
+    try {
+      await storageService.deleteBoard(id);
+      setBoards(prev => prev.filter(b => b.id !== id));
+      if (id === currentBoardId) applyBoard(null);
+    } catch (e) {
+      setError(errorMessage(e, "Failed to delete board."));
+    }
+  };
+
 
   const handleOpenKeySelection = async () => {
     // ブラウザの入力ダイアログを表示
@@ -81,22 +475,91 @@ const App: React.FC = () => {
     }
   };
 
-  const downloadImage = (id: string) => {
+  const downloadImage = async (id: string) => {
     const img = images.find(i => i.id === id);
     if (!img || !img.base64) return;
-    
+    setContextMenu(null);
+
+    // 切り抜き・回転した画像は、盤面の見た目どおりに元の解像度で書き出す
+    let href = img.base64;
+    if (img.edit) {
+      try {
+        href = (await renderEditedImage(img.base64, img.edit)).dataUrl;
+      } catch (e) {
+        setError(errorMessage(e, "Could not export the edited image."));
+        return;
+      }
+    }
     const link = document.createElement('a');
-    link.href = img.base64;
-    link.download = `synth-${id.slice(0, 8)}.png`;
+    link.href = href;
+    link.download = `synth-${id.slice(0, 8)}.${dataUrlMimeType(href) === 'image/jpeg' ? 'jpg' : 'png'}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-    setContextMenu(null);
   };
 
-  const saveToHistory = useCallback(() => {
-    setHistory(prev => [...prev.slice(-19), [...images]]);
-  }, [images]);
+  // 盤面を変更する操作の直前に呼ぶ。同じmergeKeyの連続操作は一つの履歴にまとまる
+  const recordHistory = useCallback((label: string, mergeKey?: string, before?: DocumentSnapshot) => {
+    const gesture = activeGesture.current;
+    // マウス操作中の最初の記録は、押した時点から（クリックによるz順の変更も含めて）取り消せるようにする
+    const snapshot = before || (gesture && !gesture.recorded ? gesture.snapshot : documentRef.current);
+    if (gesture) gesture.recorded = true;
+    setHistory(prev => recordAction(prev, label, snapshot, mergeKey, gesture?.id));
+  }, []);
+
+  // 盤面側のハンドラより先に受け取れるよう、キャプチャ段階で操作の開始と終了を拾う
+  useEffect(() => {
+    const beginGesture = () => {
+      gestureCount.current += 1;
+      activeGesture.current = { id: gestureCount.current, snapshot: documentRef.current, recorded: false };
+    };
+    const endGesture = () => {
+      activeGesture.current = null;
+    };
+    window.addEventListener('mousedown', beginGesture, true);
+    window.addEventListener('mouseup', endGesture, true);
+    window.addEventListener('blur', endGesture);
+    return () => {
+      window.removeEventListener('mousedown', beginGesture, true);
+      window.removeEventListener('mouseup', endGesture, true);
+      window.removeEventListener('blur', endGesture);
+    };
+  }, []);
+
+  const restoreSnapshot = useCallback((snapshot: DocumentSnapshot) => {
+    // 生成中のプレースホルダーは履歴の対象外。現在進行中のものだけを残す
+    // ライブカードの撮り直しは履歴に残さない（利用者の編集ではない）ので、戻しても最新のフレームを保つ
+    setImages(prev => {
+      const frames = new Map(prev.filter(img => img.live).map(img => [img.id, img.base64]));
+      const restored = snapshot.images
+        .filter(img => !img.isGenerating)
+        .map(img => img.live && frames.has(img.id) ? { ...img, base64: frames.get(img.id)!, payload: undefined } : img);
+      return [...restored, ...prev.filter(img => img.isGenerating)];
+    });
+    setEmitters(snapshot.emitters);
+    setGroups(snapshot.groups);
+    setSettings(snapshot.settings);
+  }, []);
+
+  const applyHistoryStep = useCallback((step: { history: HistoryState; snapshot: DocumentSnapshot } | null) => {
+    if (!step) return;
+    setHistory(step.history);
+    restoreSnapshot(step.snapshot);
+  }, [restoreSnapshot]);
+
+  const undo = () => applyHistoryStep(undoAction(history, documentRef.current));
+  const redo = () => applyHistoryStep(redoAction(history, documentRef.current));
+  const jumpToHistory = (position: number) => applyHistoryStep(jumpToPosition(history, documentRef.current, position));
+
+  const changeSettings = useCallback((next: React.SetStateAction<AppSettings>) => {
+    recordHistory('Change settings', 'settings');
+    setSettings(next);
+  }, [recordHistory]);
+
+  const selectedEmitter = useMemo(
+    () => emitters.find(em => em.id === selectedEmitterId) || null,
+    [emitters, selectedEmitterId]
+  );
 
   const selectedImage = useMemo(() => {
     if (selectedIds.size === 1) {
@@ -106,40 +569,45 @@ const App: React.FC = () => {
     return null;
   }, [selectedIds, images]);
 
+  // 取り込んだ画像をカードにする（表示は元画像、モデルには正規化した画像を送る）
+  const toCard = ({ original, payload, width, height }: IngestedImage, x: number, y: number, file?: File): ReferenceImage => {
+    const baseWidth = 200;
+    return {
+      id: uuidv4(),
+      file,
+      base64: original,
+      payload: payload !== original ? payload : undefined,
+      x,
+      y,
+      width: baseWidth,
+      height: baseWidth * (height / width)
+    };
+  };
+
   const processFiles = async (files: File[], startX: number, startY: number) => {
-    saveToHistory();
-    const newImages: ReferenceImage[] = await Promise.all(
-      files.map((file, index) => {
-        return new Promise<ReferenceImage>((resolve) => {
-          const reader = new FileReader();
-          reader.onloadend = () => {
-            const img = new Image();
-            img.onload = () => {
-              const baseWidth = 200;
-              const ratio = img.height / img.width;
-              resolve({
-                id: uuidv4(),
-                file,
-                base64: reader.result as string,
-                x: startX + (index * 30),
-                y: startY + (index * 30),
-                width: baseWidth,
-                height: baseWidth * ratio,
-              });
-            };
-            img.src = reader.result as string;
-          };
-          reader.readAsDataURL(file);
-        });
-      })
-    );
+    const results = await Promise.allSettled(files.map(file => ingestImage(file, settings.ingestMaxEdge)));
+    const newImages: ReferenceImage[] = [];
+    const failures: string[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        failures.push(result.reason instanceof IngestError ? result.reason.message : `${files[index].name}: ${result.reason?.message || 'Could not be read.'}`);
+        return;
+      }
+      const offset = newImages.length * 30;
+      newImages.push(toCard(result.value, startX + offset, startY + offset, files[index]));
+    });
+    // 読み込めなかったファイルがあっても、読み込めた分は盤面に置く
+    if (failures.length > 0) setError(failures.join(' '));
+    if (newImages.length === 0) return;
+    recordHistory(newImages.length === 1 ? 'Add image' : `Add ${newImages.length} images`);
     setImages((prev) => [...prev, ...newImages]);
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsOverBoard(false);
-    const files = (Array.from(e.dataTransfer.files) as File[]).filter(f => f.type.startsWith('image/'));
+    // 種類の判定は取り込み時に中身で行い、画像でなければエラーとして知らせる
+    const files = Array.from(e.dataTransfer.files) as File[];
     if (files.length === 0) return;
     const rect = boardRef.current?.getBoundingClientRect();
     if (!rect) return;
@@ -162,8 +630,31 @@ const App: React.FC = () => {
     }
   };
 
+  const toCanvasPoint = (clientX: number, clientY: number) => {
+    const rect = boardRef.current?.getBoundingClientRect();
+    return {
+      x: (clientX - (rect?.left || 0) - transform.x) / transform.scale,
+      y: (clientY - (rect?.top || 0) - transform.y) / transform.scale
+    };
+  };
+
   const handleBoardMouseMove = (e: React.MouseEvent) => {
     setMousePos({ x: e.clientX, y: e.clientY });
+    if (marquee) {
+      const current = toCanvasPoint(e.clientX, e.clientY);
+      const area = {
+        x: Math.min(marquee.start.x, current.x),
+        y: Math.min(marquee.start.y, current.y),
+        width: Math.abs(current.x - marquee.start.x),
+        height: Math.abs(current.y - marquee.start.y)
+      };
+      setMarquee({ ...marquee, current });
+      const next = new Set(marquee.base);
+      visibleImages.forEach((img) => {
+        if (!img.isGenerating && intersects(area, img)) next.add(img.id);
+      });
+      setSelectedIds(next);
+    }
     if (isPanning) {
       const dx = e.clientX - lastMousePos.current.x;
       const dy = e.clientY - lastMousePos.current.y;
@@ -173,9 +664,20 @@ const App: React.FC = () => {
   };
 
   const handleBoardMouseDown = (e: React.MouseEvent) => {
+    const onEmptyCanvas = !(e.target as HTMLElement).closest('.image-card') && !(e.target as HTMLElement).closest('.hud-element');
+    if (e.button === 0 && !e.altKey && onEmptyCanvas && (canvasTool === 'select' || e.shiftKey)) {
+      const start = toCanvasPoint(e.clientX, e.clientY);
+      setMarquee({ start, current: start, base: e.shiftKey ? new Set(selectedIds) : new Set() });
+      if (!e.shiftKey) setSelectedIds(new Set());
+      setSelectedEmitterId(null);
+      if (contextMenu) setContextMenu(null);
+      e.preventDefault();
+      return;
+    }
     if (e.button === 0 && !e.altKey) {
-      if (!(e.target as HTMLElement).closest('.image-card') && !(e.target as HTMLElement).closest('.hud-element')) {
+      if (onEmptyCanvas) {
         setSelectedIds(new Set());
+        setSelectedEmitterId(null);
       }
     }
     if (e.button === 1 || (e.button === 0 && (e.altKey || !(e.target as HTMLElement).closest('.image-card')))) {
@@ -198,104 +700,647 @@ const App: React.FC = () => {
     const target = e.target as HTMLElement;
     const card = target.closest('.image-card');
     const targetImageId = card?.getAttribute('data-id') || undefined;
+    const emitterCard = target.closest('.emitter-card');
+    const targetEmitterId = emitterCard?.getAttribute('data-emitter-id') || undefined;
+    // 選択外のカードを右クリックしたら、そのカードだけを操作対象にする
+    if (targetImageId && !selectedIds.has(targetImageId)) setSelectedIds(new Set([targetImageId]));
     
     setContextMenu({ 
       x: e.clientX, 
       y: e.clientY, 
       canvasX, 
       canvasY,
-      targetImageId
+      targetImageId,
+      targetEmitterId
     });
   };
 
-  const synthesizeAtPos = async (posX: number, posY: number, size: number) => {
-    // 実行直前にもチェック
-    if (!hasKey) {
-      setError("Please connect your API key to synthesize.");
-      handleOpenKeySelection();
-      return;
+  useEffect(() => synthesisQueue.subscribe(setJobs), []);
+
+  useEffect(() => {
+    synthesisQueue.setConcurrency(settings.maxConcurrentJobs);
+  }, [settings.maxConcurrentJobs]);
+
+  // 待機中・実行中のジョブを持つエミッター（失敗したジョブは再試行かクリアされるまで発火を止めない）
+  const firingEmitterIds = useMemo(
+    () => new Set(jobs.filter(job => job.emitterId && job.status !== 'failed').map(job => job.emitterId!)),
+    [jobs]
+  );
+
+  const jobById = useMemo(() => new Map(jobs.map(job => [job.id, job])), [jobs]);
+
+  const imageProvider = useMemo(
+    () => getImageProvider(settings),
+    [settings.provider, settings.localBackend]
+  );
+  const needsKey = imageProvider.requiresApiKey && !hasKey;
+  // ジョブは積んだ時点のクロージャで動くので、プロバイダ・キー・設定は実行時に最新のものを読む（再試行でも同じ）
+  const generationContext = useRef({ imageProvider, apiKey, settings });
+  generationContext.current = { imageProvider, apiKey, settings };
+
+  // レビューパネルを開き、承認されたプロンプト（キャンセル時はnull）で解決する。
+  // 複数のジョブが同時に解析を終えても、パネルは一つずつ順番に開く
+  const reviewPrompt = (title: string, prompt: string, sources: SynthesisSource[], regenerate?: () => Promise<string>, signal?: AbortSignal) => {
+    const open = () => new Promise<string | null>((resolve) => {
+      if (signal?.aborted) {
+        resolve(null);
+        return;
+      }
+      promptReviewHandlers.current = { resolve, regenerate };
+      setPromptReview({ title, prompt, sources, isRegenerating: false, canRegenerate: !!regenerate });
+      signal?.addEventListener('abort', () => {
+        if (promptReviewHandlers.current?.resolve === resolve) closePromptReview(null);
+      }, { once: true });
+    });
+    const result = reviewChain.current.then(open);
+    reviewChain.current = result;
+    return result;
+  };
+
+  const closePromptReview = (result: string | null) => {
+    const handlers = promptReviewHandlers.current;
+    promptReviewHandlers.current = null;
+    setPromptReview(null);
+    handlers?.resolve(result);
+  };
+
+  const regenerateReviewPrompt = async () => {
+    const regenerate = promptReviewHandlers.current?.regenerate;
+    if (!regenerate) return;
+    setPromptReview(prev => prev && { ...prev, isRegenerating: true });
+    try {
+      const prompt = await regenerate();
+      setPromptReview(prev => prev && { ...prev, prompt, isRegenerating: false });
+    } catch (err) {
+      setError(errorMessage(err, "Prompt analysis failed."));
+      setPromptReview(prev => prev && { ...prev, isRegenerating: false });
     }
+  };
 
-    setLoadingStep(LoadingStep.ANALYZING);
-    setError(null);
-    setContextMenu(null);
+  const addPlaceholders = (count: number, placement: { x: number; y: number }, width: number, height: number, jobId: string, emitterId?: string): string[] => {
+    const variantGroupId = count > 1 ? uuidv4() : undefined;
+    const placeholders: ReferenceImage[] = layoutVariants(count, placement, width, height).map((pos, i) => ({
+      id: uuidv4(),
+      base64: '',
+      x: pos.x,
+      y: pos.y,
+      width,
+      height,
+      isGenerating: true,
+      jobId,
+      emitterId,
+      variantGroupId,
+      variantIndex: variantGroupId ? i : undefined
+    }));
+    setImages(prev => [...prev, ...placeholders]);
+    return placeholders.map(p => p.id);
+  };
 
-    const width = size;
-    let height = size;
-    if (settings.aspectRatio === '16:9') height = size * (9/16);
-    if (settings.aspectRatio === '9:16') height = size * (16/9);
-    if (settings.aspectRatio === '4:3') height = size * (3/4);
+  const removeJobPlaceholders = (jobId: string) => {
+    setImages(prev => prev.filter(img => !(img.isGenerating && img.jobId === jobId)));
+  };
 
-    const targetCenterX = posX + width / 2;
-    const targetCenterY = posY + height / 2;
+  // 承認済みのプロンプトからプレースホルダーへ画像を生成する。失敗時は例外をそのまま投げる
+  const renderIntoPlaceholders = async (genIds: string[], request: {
+    prompt: string;
+    originalPrompt?: string;
+    sources: SynthesisSource[];
+    preset?: { id: string; name: string };
+    model: ImageModel;
+    aspectRatio: AspectRatio;
+    size: number;
+  }, signal: AbortSignal, setDetail: (detail?: string) => void): Promise<string[]> => {
+    const context = generationContext.current;
+    // 選択モデルの後に、設定されたフォールバック先を順に試す
+    const chain = [request.model, ...context.settings.fallbackModels.filter(model => model !== request.model)];
+    const { images: imageUrls, model } = await generateWithFallback(
+      context.imageProvider, request.prompt, chain, request.aspectRatio, context.apiKey,
+      { size: request.size, count: genIds.length, signal },
+      {
+        onRetry: (_model, attempt, delayMs, error) => setDetail(describeRetry(attempt, delayMs, error)),
+        onFallback: (_from, to) => setDetail(`Falling back to ${MODEL_LABELS[to]}`)
+      }
+    );
+    if (signal.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+    const filledIds = genIds.slice(0, imageUrls.length);
+    if (filledIds.length < genIds.length) {
+      setError(`The backend returned ${imageUrls.length} of ${genIds.length} requested images; the remaining placeholders were removed.`);
+    }
 
-    const scoredImages = images
-      .filter(img => !img.isGenerating)
+    // 生成結果の挿入を一つの操作として記録する（取り消すとプレースホルダーごと消える）
+    const before = documentRef.current;
+    recordHistory(filledIds.length > 1 ? `Synthesize ${filledIds.length} variations` : 'Synthesize image', undefined, {
+      ...before,
+      images: before.images.filter(img => !genIds.includes(img.id))
+    });
+    setImages(prev => prev
+      // バックエンドが要求より少なく返した分のプレースホルダーは取り除く
+      .filter(img => !genIds.includes(img.id) || filledIds.includes(img.id))
       .map(img => {
-        const sizeScore = calculateBaseSizeScore(img.width, img.height);
-        const proxWeight = calculateProximityWeight(img.x, img.y, img.width, img.height, targetCenterX, targetCenterY, settings.influenceRadius);
-        const combinedScore = sizeScore * proxWeight * 2;
+        const index = filledIds.indexOf(img.id);
+        if (index < 0) return img;
         return {
           ...img,
-          score: Math.max(0, Math.min(10, combinedScore)),
-          rawWeight: sizeScore * proxWeight
+          base64: imageUrls[index],
+          isGenerating: false,
+          jobId: undefined,
+          variantGroupId: filledIds.length > 1 ? img.variantGroupId : undefined,
+          variantIndex: filledIds.length > 1 ? img.variantIndex : undefined,
+          synthesisData: {
+            prompt: request.prompt,
+            originalPrompt: request.originalPrompt,
+            model,
+            requestedModel: model && model !== request.model ? request.model : undefined,
+            aspectRatio: request.aspectRatio,
+            size: request.size,
+            preset: request.preset,
+            sources: request.sources
+          }
         };
-      })
-      .filter(img => (img.score || 0) > 0); 
+      }));
+    return filledIds;
+  };
+
+  // ジョブの失敗がキーの問題であれば接続状態を戻す。エラー自体はそのまま投げ直す
+  const describeJobError = (err: unknown): unknown => {
+    if (err instanceof AuthError && generationContext.current.imageProvider.requiresApiKey) {
+      setHasKey(false);
+    }
+    return err;
+  };
+
+  // ライブカードをカメラの現在のフレームで撮り直し、撮ったフレームを返す。
+  // 撮り直しは合成の一部なので、取り消しの履歴には記録しない
+  const captureLiveFrame = (): string | null => {
+    // モデルに送る大きさで撮るので、正規化済みの画像は別に持たない
+    const frame = liveCamera.current?.capture(generationContext.current.settings.ingestMaxEdge);
+    // カメラが使えない・止まっているときは最後に撮ったフレームのまま合成する
+    if (!frame) return null;
+    setImages(prev => prev.map(img => img.live ? { ...img, base64: frame, payload: undefined } : img));
+    return frame;
+  };
+
+  /**
+   * Scores the references around a target rect and queues a job that analyzes once and generates
+   * `count` variations into placeholder cards. With prompt review enabled, the job waits for the user
+   * to approve the prompt. Returns the job ID, or null when nothing was queued.
+   */
+  const runSynthesis = (request: {
+    target: { x: number; y: number; width: number; height: number };
+    placement: { x: number; y: number };
+    size: number;
+    model: ImageModel;
+    aspectRatio: AspectRatio;
+    field: InfluenceFieldSettings;
+    excludeIds?: Set<string>;
+    emitterId?: string;
+    count?: number;
+    label?: string;
+    onComplete?: (ids: string[]) => void;
+  }): string | null => {
+    // 実行直前にもチェック
+    if (needsKey) {
+      setError("Please connect your API key to synthesize.");
+      handleOpenKeySelection();
+      return null;
+    }
+
+    setError(null);
+    setContextMenu(null);
+
+    const { target, placement } = request;
+    const targetCenterX = target.x + target.width / 2;
+    const targetCenterY = target.y + target.height / 2;
+
+    // 参照の採点はキューに積む時点の配置で行う
+    const scoredImages = scoreReferences(images, targetCenterX, targetCenterY, request.field, request.excludeIds, groups);
 
     if (scoredImages.length === 0) {
       setError("Synthesis field is empty. Move reference images closer to the synthesis target.");
-      setLoadingStep(LoadingStep.IDLE);
-      return;
+      return null;
+    }
+    if (scoredImages.every(img => img.influence?.negative)) {
+      setError("Only negative references are in range. Add at least one positive reference to steer toward.");
+      return null;
     }
 
-    const totalRawWeight = scoredImages.reduce((sum, img) => sum + img.rawWeight, 0);
-    const synthesisSources = scoredImages.map(img => ({
-      thumbnail: img.base64,
-      contribution: Math.round((img.rawWeight / totalRawWeight) * 100)
+    // ネガティブ参照も割合には含め、breakdownで区別して表示する
+    const contributions = calculateContributions(scoredImages);
+    const buildSources = (references: ReferenceImage[]): SynthesisSource[] => references.map((img, i) => ({
+      id: img.id,
+      thumbnail: sourceThumbnail(img),
+      text: img.text,
+      contribution: contributions[i].contribution,
+      negative: contributions[i].negative,
+      parents: lineageIndex.get(img.id)?.parents
     })).sort((a, b) => b.contribution - a.contribution);
 
-    const genId = uuidv4();
-    const placeholder: ReferenceImage = {
-      id: genId,
-      base64: '',
-      x: posX,
-      y: posY,
-      width,
-      height,
-      isGenerating: true
+    const count = Math.max(1, request.count || 1);
+    const jobId = uuidv4();
+    const genIds = addPlaceholders(count, placement, target.width, target.height, jobId, request.emitterId);
+    const reviewPrompts = settings.reviewPrompts;
+    const preset = resolveBlendPreset(settings.blendPresets, settings.blendPresetId);
+
+    return synthesisQueue.enqueue({
+      id: jobId,
+      label: request.label || (count > 1 ? `Synthesize ${count} variations` : 'Synthesize image'),
+      emitterId: request.emitterId
+    }, async (signal, setStep, setDetail) => {
+      // ライブカードは待ち時間の後、解析の直前に撮り直す
+      const frame = scoredImages.some(img => img.live) ? captureLiveFrame() : null;
+      const references = frame
+        ? scoredImages.map(img => img.live ? { ...img, base64: frame, payload: undefined } : img)
+        : scoredImages;
+      const synthesisSources = buildSources(references);
+      const analyze = () => withRetry<string>(
+        () => generationContext.current.imageProvider.generateSynthesisPrompt(references, generationContext.current.apiKey, { signal, preset }),
+        { signal, onRetry: (attempt, delayMs, error) => setDetail(describeRetry(attempt, delayMs, error)) }
+      );
+      try {
+        setStep(LoadingStep.ANALYZING);
+        // 解析は一度だけ行い、すべてのバリエーションで同じプロンプトと参照内訳を共有する
+        let analyzedPrompt = await analyze();
+        let prompt = analyzedPrompt;
+        if (reviewPrompts) {
+          setStep(LoadingStep.REVIEWING);
+          const approved = await reviewPrompt('Review Synthesis Prompt', analyzedPrompt, synthesisSources, async () => {
+            analyzedPrompt = await analyze();
+            return analyzedPrompt;
+          }, signal);
+          if (approved === null) {
+            cancelJob(jobId);
+            return;
+          }
+          prompt = approved;
+        }
+        setStep(LoadingStep.GENERATING);
+        const ids = await renderIntoPlaceholders(genIds, {
+          prompt,
+          originalPrompt: prompt !== analyzedPrompt ? analyzedPrompt : undefined,
+          sources: synthesisSources,
+          preset: { id: preset.id, name: preset.name },
+          model: request.model,
+          aspectRatio: request.aspectRatio,
+          size: request.size
+        }, signal, setDetail);
+        request.onComplete?.(ids);
+      } catch (err) {
+        throw describeJobError(err);
+      }
+    });
+  };
+
+  /**
+   * Re-generates next to an existing synthesized card from its stored prompt, after letting the user edit it.
+   * The card's stored source breakdown, model, aspect ratio and size are carried over unchanged.
+   */
+  const regenerateFromCard = async (id: string) => {
+    const card = images.find(img => img.id === id);
+    const data = card?.synthesisData;
+    if (!card || !data) return;
+    if (needsKey) {
+      setError("Please connect your API key to synthesize.");
+      handleOpenKeySelection();
+      return;
+    }
+    setContextMenu(null);
+    setError(null);
+
+    const approved = await reviewPrompt('Re-generate from Prompt', data.prompt, data.sources);
+    if (approved === null) return;
+
+    // 記録の無い古いカードは、現在の設定とカードの幅で生成する
+    const aspectRatio = data.aspectRatio || settings.aspectRatio;
+    const size = data.size || card.width;
+    const { width, height } = getAspectDimensions(aspectRatio, size);
+    const jobId = uuidv4();
+    const genIds = addPlaceholders(variationCount, { x: card.x + card.width + VARIANT_GAP, y: card.y }, width, height, jobId);
+    const request = {
+      prompt: approved,
+      // 最初に解析されたプロンプトを記録として引き継ぐ
+      originalPrompt: data.originalPrompt || (approved !== data.prompt ? data.prompt : undefined),
+      sources: data.sources,
+      preset: data.preset,
+      model: data.model || settings.model,
+      aspectRatio,
+      size
     };
-    
-    setImages(prev => [...prev, placeholder]);
+    synthesisQueue.enqueue({ id: jobId, label: 'Re-generate from prompt' }, async (signal, setStep, setDetail) => {
+      try {
+        setStep(LoadingStep.GENERATING);
+        await renderIntoPlaceholders(genIds, request, signal, setDetail);
+      } catch (err) {
+        throw describeJobError(err);
+      }
+    });
+  };
+
+  const cancelJob = (jobId: string) => {
+    synthesisQueue.cancel(jobId);
+    removeJobPlaceholders(jobId);
+  };
+
+  const dismissJob = (jobId: string) => {
+    synthesisQueue.dismiss(jobId);
+    removeJobPlaceholders(jobId);
+  };
 
+  const synthesizeAtPos = (posX: number, posY: number, size: number) => {
+    const { width, height } = getAspectDimensions(settings.aspectRatio, size);
+    runSynthesis({
+      target: { x: posX, y: posY, width, height },
+      placement: { x: posX, y: posY },
+      size,
+      model: settings.model,
+      aspectRatio: settings.aspectRatio,
+      field: settings,
+      count: variationCount
+    });
+  };
+
+  // カードを盤面から取り除き、エミッターのバージョン一覧とグループのメンバーからも外す
+  const removeCards = useCallback((ids: Set<string>, label: string) => {
+    recordHistory(label);
+    setImages(prev => prev.filter(img => !ids.has(img.id)));
+    setGroups(prev => prev.some(group => group.memberIds.some(id => ids.has(id)))
+      ? prev
+        .map(group => ({ ...group, memberIds: group.memberIds.filter(id => !ids.has(id)) }))
+        .filter(group => group.memberIds.length > 0)
+      : prev);
+    setEmitters(prev => prev.map(em => em.versionIds.some(id => ids.has(id))
+      ? { ...em, versionIds: em.versionIds.filter(id => !ids.has(id)) }
+      : em));
+  }, [recordHistory]);
+
+  // 選んだバリエーションだけを残し、同じグループの他の候補を破棄する
+  const keepVariant = (id: string) => {
+    const kept = images.find(img => img.id === id);
+    if (!kept?.variantGroupId) return;
+    const groupId = kept.variantGroupId;
+    const discarded = new Set(images.filter(img => img.id !== id && img.variantGroupId === groupId && !img.isGenerating).map(img => img.id));
+    removeCards(discarded, 'Keep variation');
+    setImages(prev => prev.map(img => img.id === id ? { ...img, variantGroupId: undefined, variantIndex: undefined } : img));
+    setSelectedIds(new Set([id]));
+    setContextMenu(null);
+  };
+
+  const lineageIndex = useMemo(() => buildLineageIndex(images), [images]);
+
+  const variantTotals = useMemo(() => {
+    const totals = new Map<string, number>();
+    images.forEach((img) => {
+      if (img.variantGroupId) totals.set(img.variantGroupId, (totals.get(img.variantGroupId) || 0) + 1);
+    });
+    return totals;
+  }, [images]);
+
+  // ドラッグ中にAltキーを押している間は吸着しない
+  useEffect(() => {
+    const handleAltKey = (e: KeyboardEvent) => { snapBypass.current = e.altKey; };
+    const handleBlur = () => { snapBypass.current = false; };
+    window.addEventListener('keydown', handleAltKey);
+    window.addEventListener('keyup', handleAltKey);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleAltKey);
+      window.removeEventListener('keyup', handleAltKey);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  /**
+   * Snaps the top-left of a dragged rect to the grid and to the edges, centers and spacing of the
+   * other visible cards and emitters, and shows the matching guides. Holding Alt bypasses snapping.
+   */
+  const snapPosition = useCallback((moving: Rect, excludeIds: Set<string>): { x: number; y: number } => {
+    const { snapToGrid, smartGuides } = documentRef.current.settings;
+    if (snapBypass.current || (!snapToGrid && !smartGuides)) {
+      setGuides([]);
+      return { x: moving.x, y: moving.y };
+    }
+    const others: Rect[] = [
+      ...snapTargets.current.images.filter(img => !img.isGenerating && !excludeIds.has(img.id)),
+      ...snapTargets.current.emitters
+        .filter(em => !excludeIds.has(em.id))
+        .map(em => ({ x: em.x, y: em.y, ...getAspectDimensions(em.aspectRatio, em.size) }))
+    ];
+    const result = snapRect(moving, others, {
+      grid: snapToGrid ? GRID_SIZE : null,
+      guides: smartGuides,
+      threshold: SNAP_THRESHOLD / snapTargets.current.scale
+    });
+    setGuides(result.guides);
+    return result;
+  }, []);
+
+  const hasLiveCards = images.some(img => img.live && !img.isGenerating);
+
+  useEffect(() => {
+    if (!hasLiveCards) {
+      // ライブカードが無くなったら、次に開くときは改めて利用者の操作を待つ
+      setLiveCameraOn(false);
+      return;
+    }
+    if (!liveCameraOn) return;
+    let cancelled = false;
+    getCameraSource().open()
+      .then((session) => {
+        if (cancelled) session.close();
+        else liveCamera.current = session;
+      })
+      .catch((e: Error) => {
+        if (cancelled) return;
+        setError(`Live camera unavailable: ${e.message}`);
+        setLiveCameraOn(false);
+      });
+    return () => {
+      cancelled = true;
+      liveCamera.current?.close();
+      liveCamera.current = null;
+    };
+  }, [hasLiveCards, liveCameraOn]);
+
+  // 撮影したフレームを画面中央にカードとして置く
+  const addCameraFrame = async (frame: string, live: boolean) => {
+    setShowCamera(false);
+    const rect = boardRef.current?.getBoundingClientRect();
+    const center = rect ? toCanvasPoint(rect.left + rect.width / 2, rect.top + rect.height / 2) : { x: 0, y: 0 };
     try {
-      // 内部で毎回GoogleGenAIをインスタンス化
-      const prompt = await geminiService.generateSynthesisPrompt(scoredImages,apiKey);
-      setLoadingStep(LoadingStep.GENERATING);
-      const imageUrl = await geminiService.generateImage(prompt, settings.model, settings.aspectRatio, apiKey);
-      
-      setImages(prev => prev.map(img => img.id === genId ? { 
-        ...img, 
-        base64: imageUrl, 
-        isGenerating: false,
-        synthesisData: {
-          prompt,
-          sources: synthesisSources
-        }
-      } : img));
-      setLoadingStep(LoadingStep.COMPLETED);
-    } catch (err: any) {
-      // エンティティが見つからないエラーはキーの問題であることが多い
-      if (err.message?.includes("Requested entity was not found") || err.message?.includes("API_KEY")) {
-        setError("API Key verification failed. Please re-select a valid paid project key.");
-        setHasKey(false);
+      const card = toCard(await ingestDataUrl(frame, settings.ingestMaxEdge, 'Camera capture'), center.x, center.y);
+      card.x -= card.width / 2;
+      card.y -= card.height / 2;
+      if (live) {
+        card.live = true;
+        setLiveCameraOn(true);
+      }
+      recordHistory(live ? 'Add live camera card' : 'Add camera capture');
+      setImages(prev => [...prev, card]);
+      setSelectedIds(new Set([card.id]));
+      setSelectedEmitterId(null);
+    } catch (e) {
+      setError(errorMessage(e, "Could not add the camera capture."));
+    }
+  };
+
+  /**
+   * Applies a crop/rotation/flip to a card without touching its original image.
+   * The model payload is re-rendered from the original and the card takes the edited aspect ratio.
+   */
+  const applyImageEdit = async (id: string, edit: ImageEdit | undefined) => {
+    setEditingImageId(null);
+    const card = documentRef.current.images.find(img => img.id === id);
+    if (!card) return;
+    try {
+      let payload: string | undefined;
+      let aspect: number;
+      if (edit) {
+        const rendered = await renderEditedImage(card.base64, edit, settings.ingestMaxEdge);
+        payload = rendered.dataUrl;
+        aspect = rendered.height / rendered.width;
       } else {
-        setError(err.message || "Synthesis failed.");
+        // 編集を外したら、取り込み時と同じ正規化をやり直す
+        const ingested = await ingestDataUrl(card.base64, settings.ingestMaxEdge);
+        payload = ingested.payload !== ingested.original ? ingested.payload : undefined;
+        aspect = ingested.height / ingested.width;
       }
-      setImages(prev => prev.filter(img => img.id !== genId));
-      setLoadingStep(LoadingStep.ERROR);
+      // マスクは編集後の画像に重ねているので、切り抜きや向きが変わったら合わなくなる
+      const keepMask = JSON.stringify(edit) === JSON.stringify(card.edit);
+      recordHistory(edit ? 'Crop & transform image' : 'Reset image edit');
+      setImages(prev => prev.map(img => img.id === id
+        ? { ...img, edit, payload, height: img.width * aspect, mask: keepMask ? img.mask : undefined }
+        : img));
+    } catch (e) {
+      setError(errorMessage(e, "Could not apply the image edit."));
     }
   };
+
+  const applyMask = (id: string, mask: string | undefined) => {
+    setMaskingImageId(null);
+    recordHistory(mask ? 'Paint focus mask' : 'Clear focus mask');
+    setImages(prev => prev.map(img => img.id === id ? { ...img, mask } : img));
+  };
+
+  // ライブカードを最後に撮ったフレームの通常カードに戻す
+  const stopLive = (id: string) => {
+    recordHistory('Stop live capture');
+    setImages(prev => prev.map(img => img.id === id ? { ...img, live: undefined } : img));
+    setContextMenu(null);
+  };
+
+  const placeEmitter = (canvasX: number, canvasY: number) => {
+    const { width, height } = getAspectDimensions(settings.aspectRatio, genSize);
+    const emitter: SynthesisEmitter = {
+      id: uuidv4(),
+      name: `Emitter ${emitters.length + 1}`,
+      x: canvasX - width / 2,
+      y: canvasY - height / 2,
+      size: genSize,
+      aspectRatio: settings.aspectRatio,
+      model: settings.model,
+      influenceRadius: settings.influenceRadius,
+      versionIds: []
+    };
+    recordHistory('Place emitter');
+    setEmitters(prev => [...prev, emitter]);
+    setSelectedEmitterId(emitter.id);
+    setSelectedIds(new Set());
+    setContextMenu(null);
+  };
+
+  const placeTextNode = (canvasX: number, canvasY: number) => {
+    const node: ReferenceImage = {
+      id: uuidv4(),
+      kind: 'text',
+      text: '',
+      base64: '',
+      x: canvasX - TEXT_NODE_SIZE.width / 2,
+      y: canvasY - TEXT_NODE_SIZE.height / 2,
+      ...TEXT_NODE_SIZE
+    };
+    recordHistory('Add text concept');
+    setImages(prev => [...prev, node]);
+    setSelectedIds(new Set([node.id]));
+    setSelectedEmitterId(null);
+    setContextMenu(null);
+  };
+
+  const updateEmitter = useCallback((id: string, patch: Partial<SynthesisEmitter>) => {
+    recordHistory('Edit emitter', `emitter-edit:${id}`);
+    setEmitters(prev => prev.map(em => em.id === id ? { ...em, ...patch } : em));
+  }, [recordHistory]);
+
+  const updateEmitterPosition = useCallback((id: string, rawX: number, rawY: number) => {
+    const emitter = documentRef.current.emitters.find(em => em.id === id);
+    if (!emitter) return;
+    const { x, y } = snapPosition({ x: rawX, y: rawY, ...getAspectDimensions(emitter.aspectRatio, emitter.size) }, new Set([id]));
+    // 押しただけ（選択のクリック）や吸着で位置が変わらないときは履歴に残さない。
+    // ドラッグ中の記録は押した時点からの一つの操作にまとまる（recordHistoryのジェスチャー）
+    if (x === emitter.x && y === emitter.y) return;
+    recordHistory('Move emitter', `emitter:${id}`);
+    setEmitters(prev => prev.map(em => em.id === id ? { ...em, x, y } : em));
+  }, [recordHistory, snapPosition]);
+
+  const removeEmitter = useCallback((id: string) => {
+    recordHistory('Remove emitter');
+    setEmitters(prev => prev.filter(em => em.id !== id));
+    setSelectedEmitterId(prev => prev === id ? null : prev);
+  }, [recordHistory]);
+
+  // エミッターごとに、現在範囲内にある参照とその寄与率を求める
+  const emitterCaptures = useMemo(() => {
+    const result: Record<string, EmitterCapture[]> = {};
+    emitters.forEach((emitter) => {
+      const { width, height } = getAspectDimensions(emitter.aspectRatio, emitter.size);
+      const scored = scoreReferences(
+        images,
+        emitter.x + width / 2,
+        emitter.y + height / 2,
+        { ...settings, influenceRadius: emitter.influenceRadius },
+        new Set(emitter.versionIds),
+        groups
+      );
+      const contributions = calculateContributions(scored);
+      result[emitter.id] = scored
+        .map((img, i) => ({ id: img.id, thumbnail: sourceThumbnail(img), text: img.text, contribution: contributions[i].contribution, negative: contributions[i].negative }))
+        .sort((a, b) => b.contribution - a.contribution);
+    });
+    return result;
+  }, [emitters, images, settings, groups]);
+
+  const fireEmitter = (id: string) => {
+    const emitter = emitters.find(em => em.id === id);
+    if (!emitter || firingEmitterIds.has(id)) return;
+    const { width, height } = getAspectDimensions(emitter.aspectRatio, emitter.size);
+    const version = emitter.versionIds.length;
+
+    runSynthesis({
+      target: { x: emitter.x, y: emitter.y, width, height },
+      placement: {
+        x: emitter.x + version * EMITTER_STACK_OFFSET,
+        y: emitter.y + height + EMITTER_STACK_GAP + version * EMITTER_STACK_OFFSET
+      },
+      size: emitter.size,
+      model: emitter.model,
+      aspectRatio: emitter.aspectRatio,
+      field: { ...settings, influenceRadius: emitter.influenceRadius },
+      // 自分が生成したバージョンを次の合成の参照にしない
+      excludeIds: new Set(emitter.versionIds),
+      emitterId: emitter.id,
+      label: `Fire ${emitter.name}`,
+      onComplete: ([newId]) => {
+        if (newId) setEmitters(prev => prev.map(em => em.id === id ? { ...em, versionIds: [...em.versionIds, newId] } : em));
+      }
+    });
+  };
+
+  const fireAllEmitters = () => {
+    // 同時実行数はキューが制御する
+    emitters.forEach((emitter) => {
+      if ((emitterCaptures[emitter.id] || []).length === 0) return;
+      fireEmitter(emitter.id);
+    });
+  };
+
   useEffect(() => {
     const board = boardRef.current;
     if (!board) return;
@@ -307,43 +1352,269 @@ const App: React.FC = () => {
       board.removeEventListener('wheel', handleWheel);
     };
   }, [handleWheel]);
+
+  // 選択中のカードを新しいグループにまとめる。既に別のグループに属していれば移し替える
+  const groupSelection = useCallback(() => {
+    const memberIds = images.filter(img => selectedIds.has(img.id) && !img.isGenerating).map(img => img.id);
+    if (memberIds.length === 0) return;
+    recordHistory('Group images');
+    setGroups(prev => [
+      ...prev
+        .map(group => ({ ...group, memberIds: group.memberIds.filter(id => !memberIds.includes(id)) }))
+        .filter(group => group.memberIds.length > 0),
+      { id: uuidv4(), name: `Group ${prev.length + 1}`, memberIds, collapsed: false, combineInfluence: false }
+    ]);
+    setContextMenu(null);
+  }, [images, selectedIds, recordHistory]);
+
+  const ungroup = useCallback((id: string) => {
+    recordHistory('Ungroup');
+    setGroups(prev => prev.filter(group => group.id !== id));
+    setContextMenu(null);
+  }, [recordHistory]);
+
+  const removeFromGroup = (imageId: string) => {
+    recordHistory('Remove from group');
+    setGroups(prev => prev
+      .map(group => ({ ...group, memberIds: group.memberIds.filter(id => id !== imageId) }))
+      .filter(group => group.memberIds.length > 0));
+    setContextMenu(null);
+  };
+
+  const updateGroup = useCallback((id: string, patch: Partial<BoardGroup>) => {
+    recordHistory('Edit group', `group-edit:${id}`);
+    setGroups(prev => prev.map(group => group.id === id ? { ...group, ...patch } : group));
+    if (patch.collapsed) {
+      // 隠れるメンバーは選択から外す
+      const group = documentRef.current.groups.find(g => g.id === id);
+      setSelectedIds(prev => new Set(Array.from(prev).filter(memberId => !group?.memberIds.includes(memberId))));
+    }
+  }, [recordHistory]);
+
+  // 外接矩形の左上が (x, y) に来るよう、メンバー全体を平行移動する
+  const moveGroup = useCallback((id: string, x: number, y: number) => {
+    const { images: current, groups: currentGroups } = documentRef.current;
+    const group = currentGroups.find(g => g.id === id);
+    const bounds = group && getGroupBounds(group, current);
+    if (!group || !bounds) return;
+    const snapped = snapPosition({ ...bounds, x, y }, new Set(group.memberIds));
+    const dx = snapped.x - bounds.x;
+    const dy = snapped.y - bounds.y;
+    if (dx === 0 && dy === 0) return;
+    recordHistory('Move group', `group:${id}`);
+    setImages(prev => prev.map(img => group.memberIds.includes(img.id) ? { ...img, x: img.x + dx, y: img.y + dy } : img));
+  }, [recordHistory, snapPosition]);
+
+  const groupViews = useMemo(() => groups
+    .map(group => {
+      const members = images.filter(img => group.memberIds.includes(img.id) && !img.isGenerating);
+      return { group, members, bounds: getGroupBounds(group, members) };
+    })
+    .filter(view => view.bounds !== null), [groups, images]);
+
+  // 折りたたまれたグループのメンバーは盤面に描画しない
+  const hiddenIds = useMemo(() => new Set(
+    groupViews.filter(view => view.group.collapsed).flatMap(view => view.members.map(member => member.id))
+  ), [groupViews]);
+  const visibleImages = useMemo(() => images.filter(img => !hiddenIds.has(img.id)), [images, hiddenIds]);
+  snapTargets.current = { images: visibleImages, emitters, scale: transform.scale };
+
+  // 複製・貼り付けしたカードを盤面に加え、それだけを選択する
+  const addCards = useCallback((cards: ReferenceImage[], verb: string) => {
+    if (cards.length === 0) return;
+    recordHistory(cards.length === 1 ? `${verb} image` : `${verb} ${cards.length} images`);
+    setImages(prev => [...prev, ...cards]);
+    setSelectedIds(new Set(cards.map(card => card.id)));
+    setSelectedEmitterId(null);
+    setContextMenu(null);
+  }, [recordHistory]);
+
+  const copySelection = useCallback((): string | null => {
+    const cards = images.filter(img => selectedIds.has(img.id) && !img.isGenerating);
+    if (cards.length === 0) return null;
+    return cardClipboard.copy(cards);
+  }, [images, selectedIds]);
+
+  const duplicateSelection = useCallback(() => {
+    const cards = images.filter(img => selectedIds.has(img.id) && !img.isGenerating);
+    addCards(cloneCards(cards, PASTE_OFFSET, PASTE_OFFSET), 'Duplicate');
+  }, [images, selectedIds, addCards]);
+
+  // at を省略すると元の位置から段々にずらして貼り付ける
+  const pasteCards = (at?: { x: number; y: number }) => {
+    const bounds = cardClipboard.getBounds();
+    const rect = boardRef.current?.getBoundingClientRect();
+    if (!bounds || !rect) return;
+    const viewport = { ...toCanvasPoint(rect.left, rect.top), width: rect.width / transform.scale, height: rect.height / transform.scale };
+    // 元の位置が画面外にある（別のボードからコピーした場合など）ときはカーソル位置に貼り付ける
+    const anchor = at || (intersects(bounds, viewport) ? undefined : toCanvasPoint(mousePos.x, mousePos.y));
+    addCards(cardClipboard.paste(anchor), 'Paste');
+  };
+
+  const copyFromMenu = () => {
+    const marker = copySelection();
+    // メニューからのコピーでも、次のCtrl+Vで自分のカードが優先されるよう目印を書き込む
+    if (marker) navigator.clipboard?.writeText(marker).catch(() => {});
+    setContextMenu(null);
+  };
+
+  const isModalOpen = !!(editingImageId || maskingImageId || promptReview);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // 編集ダイアログやプロンプトのレビューが開いている間は、背後のボードを操作しない
+      if (isModalOpen) return;
       const isCtrl = e.ctrlKey || e.metaKey;
-      if (isCtrl && e.key.toLowerCase() === 'z') {
-        if (history.length > 0) {
-          const last = history[history.length - 1];
-          setImages(last);
-          setHistory(prev => prev.slice(0, -1));
+      const isEditingText = isEditableTarget(e.target);
+      if (isCtrl && !isEditingText && (e.key.toLowerCase() === 'z' || e.key.toLowerCase() === 'y')) {
+        e.preventDefault();
+        if (e.key.toLowerCase() === 'y' || e.shiftKey) redo();
+        else undo();
+        return;
+      }
+      if (isCtrl && !isEditingText && e.key.toLowerCase() === 'a') {
+        e.preventDefault();
+        setSelectedIds(new Set(images.filter(img => !img.isGenerating && !hiddenIds.has(img.id)).map(img => img.id)));
+        return;
+      }
+      if (!isCtrl && !isEditingText && (e.key === 'v' || e.key === 'h')) {
+        setCanvasTool(e.key === 'v' ? 'select' : 'pan');
+        return;
+      }
+      if (isCtrl && !isEditingText && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        duplicateSelection();
+        return;
+      }
+      if (isCtrl && !isEditingText && e.key.toLowerCase() === 'g') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          groups.filter(group => group.memberIds.some(id => selectedIds.has(id))).forEach(group => ungroup(group.id));
+        } else {
+          groupSelection();
         }
+        return;
       }
       if (e.key === 'Backspace' || e.key === 'Delete') {
-        if (selectedIds.size > 0 && !(e.target instanceof HTMLInputElement)) {
-          saveToHistory();
-          setImages(prev => prev.filter(img => !selectedIds.has(img.id)));
+        if (selectedIds.size > 0 && !isEditingText) {
+          removeCards(selectedIds, selectedIds.size === 1 ? 'Delete image' : `Delete ${selectedIds.size} images`);
           setSelectedIds(new Set<string>());
+        } else if (selectedEmitterId && !isEditingText) {
+          removeEmitter(selectedEmitterId);
         }
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [images, selectedIds, history, saveToHistory]);
+  }, [images, groups, hiddenIds, selectedIds, selectedEmitterId, isModalOpen, removeCards, removeEmitter, groupSelection, ungroup, duplicateSelection]);
+
+  // リスナーは一度だけ登録し、そこから呼ぶ処理は最新の描画のものをrefから取る
+  const clipboardActions = useRef({ copySelection, pasteCards, processFiles, toCanvasPoint, mousePos });
+  clipboardActions.current = { copySelection, pasteCards, processFiles, toCanvasPoint, mousePos };
 
+  // Ctrl+C / Ctrl+V はブラウザのcopy・pasteイベントで受け取る（テキスト入力中は標準の動作に任せる）
   useEffect(() => {
-    const handleGlobalMouseUp = () => setIsPanning(false);
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || !e.clipboardData) return;
+      const marker = clipboardActions.current.copySelection();
+      if (!marker) return;
+      e.preventDefault();
+      e.clipboardData.setData('text/plain', marker);
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || !e.clipboardData) return;
+      // 最後にコピーしたのが盤面のカードならそれを、そうでなければクリップボードの画像を貼り付ける
+      if (cardClipboard.isCurrent(e.clipboardData.getData('text/plain'))) {
+        e.preventDefault();
+        clipboardActions.current.pasteCards();
+        return;
+      }
+      const files = (Array.from(e.clipboardData.files) as File[]).filter(f => f.type.startsWith('image/'));
+      if (files.length === 0) return;
+      e.preventDefault();
+      const { processFiles, toCanvasPoint, mousePos } = clipboardActions.current;
+      const { x, y } = toCanvasPoint(mousePos.x, mousePos.y);
+      processFiles(files, x - 100, y - 100);
+    };
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleGlobalMouseUp = () => {
+      setIsPanning(false);
+      setMarquee(null);
+      setGuides([]);
+    };
     window.addEventListener('mouseup', handleGlobalMouseUp);
     return () => window.removeEventListener('mouseup', handleGlobalMouseUp);
   }, []);
 
-  const updatePosition = useCallback((id: string, x: number, y: number) => {
+  const startCardDrag = useCallback((id: string) => {
+    cardDragStart.current = { id, positions: new Map(documentRef.current.images.map(img => [img.id, { x: img.x, y: img.y }])) };
+  }, []);
+
+  const updatePosition = useCallback((id: string, rawX: number, rawY: number) => {
+    const dragged = documentRef.current.images.find(img => img.id === id);
+    if (!dragged) return;
+    // 選択中のカードをドラッグした場合は、選択全体を同じだけ動かす。
+    // 再描画の前に次のmousemoveが来ても累積しないよう、現在位置ではなく開始位置に差分を足す
+    if (selectedIds.size > 1 && selectedIds.has(id)) {
+      const start = cardDragStart.current?.id === id ? cardDragStart.current.positions : null;
+      const origin = start?.get(id);
+      if (!start || !origin) return;
+      const moving = documentRef.current.images.filter(img => selectedIds.has(img.id) && !img.isGenerating && start.has(img.id));
+      const bounds = getBounds(moving.map(img => ({ ...img, ...start.get(img.id)! })));
+      if (!bounds) return;
+      const snapped = snapPosition({ ...bounds, x: bounds.x + rawX - origin.x, y: bounds.y + rawY - origin.y }, selectedIds);
+      const dx = snapped.x - bounds.x;
+      const dy = snapped.y - bounds.y;
+      recordHistory(`Move ${selectedIds.size} images`, `card:${id}`);
+      setImages((prev) => prev.map((img) => {
+        const from = selectedIds.has(img.id) && !img.isGenerating ? start.get(img.id) : undefined;
+        return from ? { ...img, x: from.x + dx, y: from.y + dy } : img;
+      }));
+      return;
+    }
+    const { x, y } = snapPosition({ x: rawX, y: rawY, width: dragged.width, height: dragged.height }, new Set([id]));
+    recordHistory('Move image', `card:${id}`);
     setImages((prev) => prev.map((img) => img.id === id ? { ...img, x, y } : img));
-  }, []);
+  }, [recordHistory, selectedIds, snapPosition]);
 
-  const updateSize = useCallback((id: string, width: number, height: number) => {
+  const updateSize = useCallback((id: string, rawWidth: number, rawHeight: number) => {
+    const card = documentRef.current.images.find(img => img.id === id);
+    let width = rawWidth;
+    let height = rawHeight;
+    if (card && documentRef.current.settings.snapToGrid && !snapBypass.current) {
+      const snapped = snapSizeToGrid({ x: card.x, y: card.y, width: rawWidth, height: rawHeight }, GRID_SIZE);
+      width = snapped.width;
+      // 画像は縦横比を保つので、右端だけをグリッドに合わせる
+      height = isTextNode(card) ? snapped.height : rawHeight * (snapped.width / rawWidth);
+    }
+    recordHistory('Resize image', `resize:${id}`);
     setImages((prev) => prev.map((img) => img.id === id ? { ...img, width, height } : img));
-  }, []);
+  }, [recordHistory]);
+
+  const updateText = useCallback((id: string, text: string) => {
+    recordHistory('Edit text concept', `text:${id}`);
+    setImages((prev) => prev.map((img) => img.id === id ? { ...img, text } : img));
+  }, [recordHistory]);
+
+  const updateInfluence = useCallback((id: string, patch: Partial<InfluenceOverride>) => {
+    recordHistory('Change influence', `influence:${id}`);
+    setImages((prev) => prev.map((img) => img.id === id
+      ? { ...img, influence: { ...DEFAULT_INFLUENCE, ...img.influence, ...patch } }
+      : img));
+  }, [recordHistory]);
 
   const bringToFront = useCallback((id: string) => {
+    const current = documentRef.current.images;
+    if (current.length === 0 || current[current.length - 1].id === id) return;
+    // z順の変更だけでは履歴に残さない。そのままドラッグすれば、押した時点からの移動として記録される
     setImages((prev) => {
       const idx = prev.findIndex(img => img.id === id);
       if (idx === -1) return prev;
@@ -356,6 +1627,8 @@ const App: React.FC = () => {
 
   const handleSelect = useCallback((id: string, multi: boolean) => {
     setSelectedIds((prev: Set<string>) => {
+      // 複数選択中のカードを掴んだときは、選択を保ったままドラッグできるようにする
+      if (!multi && prev.size > 1 && prev.has(id)) return prev;
       const next = multi ? new Set<string>(prev) : new Set<string>();
       if (next.has(id) && multi) next.delete(id);
       else next.add(id);
@@ -363,7 +1636,59 @@ const App: React.FC = () => {
     });
   }, []);
 
+  const selectedCards = useMemo(
+    () => visibleImages.filter(img => selectedIds.has(img.id) && !img.isGenerating),
+    [visibleImages, selectedIds]
+  );
+  const selectionBounds = useMemo(() => selectedCards.length > 1 ? getBounds(selectedCards) : null, [selectedCards]);
+
+  const arrangeSelection = (label: string, arrange: (items: ArrangeItem[]) => ArrangeResult) => {
+    const moves = arrange(selectedCards);
+    setContextMenu(null);
+    if (moves.size === 0) return;
+    recordHistory(label);
+    setImages(prev => prev.map(img => {
+      const move = moves.get(img.id);
+      return move ? { ...img, ...move } : img;
+    }));
+  };
+
+  const startSelectionResize = useCallback(() => {
+    const bounds = getBounds(selectedCards);
+    if (!bounds) return;
+    const minWidth = Math.min(...selectedCards.map(img => img.width));
+    selectionResizeStart.current = {
+      origin: { x: bounds.x, y: bounds.y },
+      rects: new Map(selectedCards.map(img => [img.id, { x: img.x, y: img.y, width: img.width, height: img.height }])),
+      minScale: Math.min(1, MIN_CARD_WIDTH / minWidth)
+    };
+  }, [selectedCards]);
+
+  // 選択全体を外接矩形の左上を基準に拡大縮小する（位置と大きさを同じ倍率で変える）
+  const resizeSelection = useCallback((scale: number) => {
+    const start = selectionResizeStart.current;
+    if (!start) return;
+    const s = Math.max(start.minScale, scale);
+    recordHistory(`Resize ${start.rects.size} images`, 'selection-resize');
+    setImages(prev => prev.map(img => {
+      const rect = start.rects.get(img.id);
+      if (!rect) return img;
+      return {
+        ...img,
+        x: start.origin.x + (rect.x - start.origin.x) * s,
+        y: start.origin.y + (rect.y - start.origin.y) * s,
+        width: rect.width * s,
+        height: rect.height * s
+      };
+    }));
+  }, [recordHistory]);
+
   const gridLineColor = 'rgba(99, 102, 241, 0.2)';
+  const falloffGradient = useMemo(
+    () => buildFalloffGradient(settings),
+    [settings.falloff, settings.customFalloff]
+  );
+  const contextMenuImage = contextMenu?.targetImageId ? images.find(img => img.id === contextMenu.targetImageId) : undefined;
   const influenceX = contextMenu ? contextMenu.x : mousePos.x;
   const influenceY = contextMenu ? contextMenu.y : mousePos.y;
 
@@ -382,7 +1707,7 @@ const App: React.FC = () => {
     <div className="flex flex-col h-screen overflow-hidden bg-slate-950 text-slate-100 font-sans">
       
       {/* API Key Connection Overlay - Mandatory bypass env */}
-      {!hasKey && (
+      {needsKey && (
         <div className="fixed inset-0 z-[1000] bg-slate-950 flex items-center justify-center p-6 animate-in fade-in duration-700">
           <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,rgba(99,102,241,0.15)_0%,transparent_70%)]"></div>
           <div className="relative max-w-md w-full bg-slate-900 border border-indigo-500/30 rounded-[2.5rem] p-12 shadow-[0_0_100px_rgba(99,102,241,0.2)] text-center flex flex-col items-center gap-10">
@@ -408,6 +1733,12 @@ const App: React.FC = () => {
               </svg>
             </button>
             <div className="flex flex-col gap-3">
+              <button
+                onClick={() => changeSettings(prev => ({ ...prev, provider: 'mock' }))}
+                className="text-[10px] text-slate-400 hover:text-indigo-400 transition-colors font-bold uppercase tracking-widest"
+              >
+                Continue offline with mock provider
+              </button>
               <a 
                 href="https://ai.google.dev/gemini-api/docs/billing" 
                 target="_blank" 
@@ -424,15 +1755,84 @@ const App: React.FC = () => {
       
       {/* App Title Display */}
       <div className="absolute top-6 left-1/2 -translate-x-1/2 z-[40] pointer-events-none select-none">
-        <div className="bg-slate-900/60 backdrop-blur-2xl border border-white/10 px-8 py-3 rounded-2xl shadow-2xl">
+        <div className="bg-slate-900/60 backdrop-blur-2xl border border-white/10 px-8 py-3 rounded-2xl shadow-2xl flex flex-col items-center">
           <h1 className="text-sm font-heading font-black tracking-widest uppercase text-white/90">
             ResonaCanvas
           </h1>
+          <span className="text-[10px] text-slate-500 font-bold truncate max-w-[240px]">{currentBoardName}</span>
         </div>
       </div>
 
       {/* Main HUD Controls */}
       <div className="absolute top-6 right-6 z-50 flex gap-2 hud-element">
+        <button 
+          onClick={(e) => { e.stopPropagation(); setCanvasTool(prev => prev === 'select' ? 'pan' : 'select'); }}
+          className={`p-3 backdrop-blur-2xl border rounded-xl text-white transition-colors shadow-2xl ${canvasTool === 'select' ? 'bg-indigo-600/80 border-indigo-400/50' : 'bg-slate-900/60 border-white/10 hover:bg-white/10'}`}
+          title={canvasTool === 'select' ? 'Marquee Select (V) · drag empty canvas to select' : 'Pan (H) · Shift+drag to select'}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} strokeDasharray={canvasTool === 'select' ? '3 2' : undefined} d="M4 4h16v16H4z" />
+          </svg>
+        </button>
+        <button 
+          onClick={(e) => { e.stopPropagation(); setShowCamera(true); }}
+          className="p-3 bg-slate-900/60 backdrop-blur-2xl border border-white/10 rounded-xl text-white hover:bg-white/10 transition-colors shadow-2xl"
+          title="Capture from Camera"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+        </button>
+        <button 
+          onClick={(e) => { e.stopPropagation(); setShowHistory(prev => !prev); }}
+          className={`p-3 backdrop-blur-2xl border rounded-xl text-white transition-colors shadow-2xl ${showHistory ? 'bg-indigo-600/80 border-indigo-400/50' : 'bg-slate-900/60 border-white/10 hover:bg-white/10'}`}
+          title="History"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </button>
+        <button 
+          onClick={(e) => { e.stopPropagation(); setShowLineage(prev => !prev); }}
+          className={`p-3 backdrop-blur-2xl border rounded-xl text-white transition-colors shadow-2xl ${showLineage ? 'bg-indigo-600/80 border-indigo-400/50' : 'bg-slate-900/60 border-white/10 hover:bg-white/10'}`}
+          title="Show Lineage"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m9-12a3 3 0 11-6 0 3 3 0 016 0zm0 0c0 5-9 4-9 12" />
+          </svg>
+        </button>
+        {emitters.length > 0 && (
+          <button 
+            onClick={(e) => { e.stopPropagation(); fireAllEmitters(); }}
+            disabled={firingEmitterIds.size > 0}
+            className="px-4 py-3 bg-fuchsia-600/80 backdrop-blur-2xl border border-fuchsia-400/30 rounded-xl text-white text-[10px] font-black uppercase tracking-widest hover:bg-fuchsia-500 disabled:opacity-50 transition-colors shadow-2xl"
+            title="Re-fire every emitter with the current arrangement"
+          >
+            Re-fire All ({emitters.length})
+          </button>
+        )}
+        <button 
+          onClick={(e) => {
+            e.stopPropagation();
+            setExportDialog({ target: selectedCards.length > 0 ? 'selection' : 'board', recipeId: selectedImage?.synthesisData ? selectedImage.id : undefined });
+          }}
+          className="p-3 bg-slate-900/60 backdrop-blur-2xl border border-white/10 rounded-xl text-white hover:bg-white/10 transition-colors shadow-2xl"
+          title="Export PNG"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+        </button>
+        <button 
+          onClick={(e) => { e.stopPropagation(); refreshBoards(); setShowLibrary(true); }}
+          className="p-3 bg-slate-900/60 backdrop-blur-2xl border border-white/10 rounded-xl text-white hover:bg-white/10 transition-colors shadow-2xl"
+          title="Board Library"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+          </svg>
+        </button>
         <button 
           onClick={(e) => { e.stopPropagation(); setShowSettings(true); }}
           className="p-3 bg-slate-900/60 backdrop-blur-2xl border border-white/10 rounded-xl text-white hover:bg-white/10 transition-colors shadow-2xl"
@@ -464,7 +1864,7 @@ const App: React.FC = () => {
             width: `${settings.influenceRadius * 2 * transform.scale}px`,
             height: `${settings.influenceRadius * 2 * transform.scale}px`,
             transform: 'translate(-50%, -50%)',
-            background: 'radial-gradient(circle, rgba(239, 68, 68, 0.45) 0%, rgba(234, 179, 8, 0.2) 35%, rgba(34, 197, 94, 0.15) 60%, transparent 75%)',
+            background: falloffGradient,
             border: '2px dashed rgba(239, 68, 68, 0.25)',
             borderRadius: '100%',
             opacity: isPanning ? 0 : 1,
@@ -473,6 +1873,9 @@ const App: React.FC = () => {
           }}
         >
           <div className="absolute inset-0 border border-green-500/25 rounded-full"></div>
+          {settings.distanceMode === 'edge' && (
+            <span className="absolute top-full left-1/2 -translate-x-1/2 mt-2 text-[9px] font-black uppercase tracking-widest text-red-300/70 whitespace-nowrap">Edge distance</span>
+          )}
         </div>
 
         {/* Dynamic Grid */}
@@ -480,7 +1883,7 @@ const App: React.FC = () => {
           className="absolute inset-0 pointer-events-none"
           style={{ 
             backgroundImage: `radial-gradient(circle at 1px 1px, ${gridLineColor} 1px, transparent 0)`,
-            backgroundSize: `${40 * transform.scale}px ${40 * transform.scale}px`,
+            backgroundSize: `${GRID_SIZE * transform.scale}px ${GRID_SIZE * transform.scale}px`,
             backgroundPosition: `${transform.x}px ${transform.y}px`,
           }}
         ></div>
@@ -492,24 +1895,92 @@ const App: React.FC = () => {
           }}
           className="absolute inset-0 pointer-events-none"
         >
+          {showLineage && (
+            <LineageOverlay images={visibleImages} index={lineageIndex} focusId={selectedImage?.id || null} />
+          )}
           <div className="pointer-events-auto">
-            {images.map((img) => (
+            {groupViews.map(({ group, members, bounds }) => (
+              <GroupFrame
+                key={group.id}
+                group={group}
+                bounds={bounds!}
+                members={members}
+                onUpdatePosition={moveGroup}
+                onChange={updateGroup}
+                onUngroup={ungroup}
+                zoom={transform.scale}
+              />
+            ))}
+            {emitters.map((emitter) => (
+              <EmitterCard
+                key={emitter.id}
+                emitter={emitter}
+                captures={emitterCaptures[emitter.id] || []}
+                isSelected={selectedEmitterId === emitter.id}
+                isFiring={firingEmitterIds.has(emitter.id)}
+                onUpdatePosition={updateEmitterPosition}
+                onSelect={(id) => { setSelectedEmitterId(id); setSelectedIds(new Set()); }}
+                onFire={fireEmitter}
+                onRemove={removeEmitter}
+                zoom={transform.scale}
+              />
+            ))}
+            {visibleImages.map((img) => (
               <ImageCard 
                 key={img.id}
                 item={img}
                 isSelected={selectedIds.has(img.id)}
                 onUpdatePosition={updatePosition}
+                onDragStart={startCardDrag}
                 onUpdateSize={updateSize}
-                onRemove={(id) => {
-                  saveToHistory();
-                  setImages(prev => prev.filter(i => i.id !== id));
-                }}
+                onRemove={(id) => removeCards(new Set([id]), 'Delete image')}
                 onSelect={handleSelect}
                 onBringToFront={bringToFront}
+                onUpdateText={updateText}
+                onEdit={setEditingImageId}
+                livePaused={!liveCameraOn}
+                job={img.jobId ? jobById.get(img.jobId) : undefined}
+                variant={img.variantGroupId ? { index: img.variantIndex || 0, total: variantTotals.get(img.variantGroupId) || 1 } : undefined}
                 zoom={transform.scale}
               />
             ))}
+            {selectionBounds && !marquee && (
+              <SelectionBox
+                bounds={selectionBounds}
+                count={selectedCards.length}
+                onResizeStart={startSelectionResize}
+                onResize={resizeSelection}
+                zoom={transform.scale}
+              />
+            )}
           </div>
+          {guides.length > 0 && (
+            <svg className="absolute left-0 top-0 pointer-events-none" width={1} height={1} style={{ overflow: 'visible' }}>
+              {guides.map((guide, i) => (
+                <line
+                  key={i}
+                  x1={guide.x1}
+                  y1={guide.y1}
+                  x2={guide.x2}
+                  y2={guide.y2}
+                  stroke={guide.kind === 'align' ? 'rgb(244, 114, 182)' : 'rgb(56, 189, 248)'}
+                  strokeWidth={1 / transform.scale}
+                  strokeDasharray={guide.kind === 'spacing' ? `${4 / transform.scale} ${3 / transform.scale}` : undefined}
+                />
+              ))}
+            </svg>
+          )}
+          {marquee && (
+            <div
+              className="absolute border border-indigo-400 bg-indigo-500/10 pointer-events-none"
+              style={{
+                left: Math.min(marquee.start.x, marquee.current.x),
+                top: Math.min(marquee.start.y, marquee.current.y),
+                width: Math.abs(marquee.current.x - marquee.start.x),
+                height: Math.abs(marquee.current.y - marquee.start.y)
+              }}
+            ></div>
+          )}
         </div>
 
         {/* Floating Controls with Enhanced Slider Aesthetics */}
@@ -555,7 +2026,7 @@ const App: React.FC = () => {
                 <input 
                   type="range" min="300" max="3000" step="50" value={settings.influenceRadius}
                   onMouseDown={(e) => e.stopPropagation()} 
-                  onChange={(e) => setSettings({ ...settings, influenceRadius: parseFloat(e.target.value) })}
+                  onChange={(e) => changeSettings({ ...settings, influenceRadius: parseFloat(e.target.value) })}
                   className="w-full h-2 bg-transparent appearance-none cursor-pointer accent-red-500 relative z-10"
                 />
               </div>
@@ -563,38 +2034,141 @@ const App: React.FC = () => {
           </div>
         </div>
 
-        {/* Loading HUD */}
-        {(loadingStep === LoadingStep.ANALYZING || loadingStep === LoadingStep.GENERATING) && (
-          <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-[110] flex items-center gap-3 bg-slate-900/95 backdrop-blur-2xl border border-indigo-500/30 px-6 py-3 rounded-2xl shadow-2xl">
-            <div className="h-4 w-4 border-2 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin"></div>
-            <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400 animate-pulse">
-               {loadingStep === LoadingStep.ANALYZING ? "Processing Concepts" : "Synthesizing Artifact"}
-            </span>
-          </div>
-        )}
+        {/* Jobs Tray */}
+        <JobsTray
+          jobs={jobs}
+          onCancel={cancelJob}
+          onRetry={(id) => synthesisQueue.retry(id)}
+          onDismiss={dismissJob}
+        />
       </main>
 
+      {/* Board Library */}
+      {showLibrary && (
+        <BoardLibrary
+          boards={boards}
+          currentBoardId={currentBoardId}
+          onCreate={handleCreateBoard}
+          onOpen={handleOpenBoard}
+          onRename={handleRenameBoard}
+          onDuplicate={handleDuplicateBoard}
+          onDelete={handleDeleteBoard}
+          onExport={handleExportBoard}
+          onImport={handleImportBoard}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <div className="fixed inset-0 z-[250] flex items-center justify-center p-6 bg-slate-950/80 backdrop-blur-md animate-in fade-in duration-300 hud-element" onClick={() => setShowSettings(false)}>
-          <div className="relative w-full max-w-md bg-slate-900 border border-white/5 rounded-3xl shadow-2xl p-8" onClick={(e) => e.stopPropagation()}>
+          <div className="relative w-full max-w-md max-h-[90vh] overflow-y-auto custom-scrollbar bg-slate-900 border border-white/5 rounded-3xl shadow-2xl p-8" onClick={(e) => e.stopPropagation()}>
             <button onClick={() => setShowSettings(false)} className="absolute top-6 right-6 p-2 text-slate-500 hover:text-white transition-colors">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
             </button>
             <h3 className="text-xl font-heading font-black mb-8 uppercase tracking-widest text-indigo-400">Engine Config</h3>
             <div className="space-y-6">
+              <div>
+                <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Image Provider</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {IMAGE_PROVIDERS.map((provider) => (
+                    <button 
+                      key={provider.id}
+                      onClick={() => changeSettings({ ...settings, provider: provider.id })}
+                      className={`text-left px-4 py-3 rounded-xl border transition-all ${settings.provider === provider.id ? 'bg-indigo-600 border-indigo-400' : 'bg-slate-800 border-white/5 hover:bg-slate-700'}`}
+                    >
+                      <div className="text-sm font-bold">{provider.label}</div>
+                      <div className="text-[10px] opacity-60">{provider.description}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {settings.provider === 'local-http' && (
+                <div className="flex flex-col gap-3 p-4 bg-slate-950/50 rounded-xl border border-white/5">
+                  <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500">Local Backend</label>
+                  <input
+                    value={settings.localBackend.endpoint}
+                    onChange={(e) => changeSettings({ ...settings, localBackend: { ...settings.localBackend, endpoint: e.target.value } })}
+                    placeholder="http://127.0.0.1:7860"
+                    className="w-full bg-slate-800 border border-white/5 rounded-lg px-3 py-2 text-xs font-mono text-white outline-none focus:border-indigo-500/50"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    {([['a1111', 'SD WebUI API'], ['generic', 'Generic JSON']] as const).map(([style, label]) => (
+                      <button 
+                        key={style}
+                        onClick={() => changeSettings({ ...settings, localBackend: { ...settings.localBackend, apiStyle: style } })}
+                        className={`py-2 text-[10px] font-bold rounded-lg border transition-all ${settings.localBackend.apiStyle === style ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      value={settings.localBackend.sampler}
+                      onChange={(e) => changeSettings({ ...settings, localBackend: { ...settings.localBackend, sampler: e.target.value } })}
+                      placeholder="Sampler"
+                      title="Sampler"
+                      className="bg-slate-800 border border-white/5 rounded-lg px-3 py-2 text-xs text-white outline-none focus:border-indigo-500/50"
+                    />
+                    <input
+                      type="number" min="1" max="150"
+                      value={settings.localBackend.steps}
+                      onChange={(e) => changeSettings({ ...settings, localBackend: { ...settings.localBackend, steps: Math.max(1, parseInt(e.target.value) || 1) } })}
+                      title="Steps"
+                      className="bg-slate-800 border border-white/5 rounded-lg px-3 py-2 text-xs font-mono text-white outline-none focus:border-indigo-500/50"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between text-[10px] text-slate-500 font-bold">
+                    <span>Prompt analysis</span>
+                    <div className="flex gap-1">
+                      {(['gemini', 'mock'] as const).map((id) => (
+                        <button 
+                          key={id}
+                          onClick={() => changeSettings({ ...settings, localBackend: { ...settings.localBackend, promptProvider: id } })}
+                          className={`px-2 py-1 rounded border transition-all ${settings.localBackend.promptProvider === id ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+                        >
+                          {id === 'gemini' ? 'Gemini' : 'Mock'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+              <div>
+                <div className="flex justify-between items-center mb-3">
+                  <label className="text-[10px] font-black uppercase tracking-widest text-slate-500">Blend Preset</label>
+                  <button
+                    onClick={() => setShowPresetEditor(true)}
+                    className="text-[9px] font-black uppercase tracking-widest text-indigo-400 hover:text-indigo-300"
+                  >
+                    Edit Presets
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {settings.blendPresets.map((preset) => (
+                    <button 
+                      key={preset.id}
+                      onClick={() => changeSettings({ ...settings, blendPresetId: preset.id })}
+                      className={`px-3 py-2 text-[10px] font-bold rounded-lg border transition-all truncate ${resolveBlendPreset(settings.blendPresets, settings.blendPresetId).id === preset.id ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+                    >
+                      {preset.name || 'Untitled'}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <div>
                 <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Generation Model</label>
                 <div className="grid grid-cols-1 gap-2">
                   <button 
-                    onClick={() => setSettings({ ...settings, model: 'gemini-2.5-flash-image' })}
+                    onClick={() => changeSettings({ ...settings, model: 'gemini-2.5-flash-image' })}
                     className={`text-left px-4 py-3 rounded-xl border transition-all ${settings.model === 'gemini-2.5-flash-image' ? 'bg-indigo-600 border-indigo-400' : 'bg-slate-800 border-white/5 hover:bg-slate-700'}`}
                   >
                     <div className="text-sm font-bold">Gemini 2.5 Flash</div>
                     <div className="text-[10px] opacity-60">High-speed creative synthesis.</div>
                   </button>
                   <button 
-                    onClick={() => setSettings({ ...settings, model: 'gemini-3-pro-image-preview' })}
+                    onClick={() => changeSettings({ ...settings, model: 'gemini-3-pro-image-preview' })}
                     className={`text-left px-4 py-3 rounded-xl border transition-all ${settings.model === 'gemini-3-pro-image-preview' ? 'bg-indigo-600 border-indigo-400' : 'bg-slate-800 border-white/5 hover:bg-slate-700'}`}
                   >
                     <div className="text-sm font-bold flex items-center gap-2">
@@ -603,7 +2177,7 @@ const App: React.FC = () => {
                     <div className="text-[10px] opacity-60">High-fidelity concept fusion.</div>
                   </button>
                   <button 
-                    onClick={() => setSettings({ ...settings, model: 'imagen-4.0-generate-001' })}
+                    onClick={() => changeSettings({ ...settings, model: 'imagen-4.0-generate-001' })}
                     className={`text-left px-4 py-3 rounded-xl border transition-all ${settings.model === 'imagen-4.0-generate-001' ? 'bg-indigo-600 border-indigo-400' : 'bg-slate-800 border-white/5 hover:bg-slate-700'}`}
                   >
                     <div className="text-sm font-bold flex items-center gap-2">
@@ -613,13 +2187,57 @@ const App: React.FC = () => {
                   </button>
                 </div>
               </div>
+              <div>
+                <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Fallback Chain</label>
+                <div className="flex flex-col gap-1">
+                  {settings.fallbackModels.map((model, i) => (
+                    <div key={model} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 border border-white/5">
+                      <span className="text-[9px] font-mono text-slate-500">{i + 1}</span>
+                      <span className={`flex-1 text-[11px] font-bold ${model === settings.model ? 'text-slate-500 line-through' : 'text-slate-200'}`}>{MODEL_LABELS[model]}</span>
+                      <button
+                        onClick={() => {
+                          const next = [...settings.fallbackModels];
+                          [next[i - 1], next[i]] = [next[i], next[i - 1]];
+                          changeSettings({ ...settings, fallbackModels: next });
+                        }}
+                        disabled={i === 0}
+                        className="px-1 text-slate-400 hover:text-white disabled:opacity-20 text-[10px]"
+                        title="Move up"
+                      >
+                        ▲
+                      </button>
+                      <button
+                        onClick={() => changeSettings({ ...settings, fallbackModels: settings.fallbackModels.filter(m => m !== model) })}
+                        className="px-1 text-slate-500 hover:text-red-400 text-[10px]"
+                        title="Remove from chain"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {(Object.keys(MODEL_LABELS) as ImageModel[]).filter(model => !settings.fallbackModels.includes(model)).map((model) => (
+                    <button
+                      key={model}
+                      onClick={() => changeSettings({ ...settings, fallbackModels: [...settings.fallbackModels, model] })}
+                      className="px-2 py-1 rounded border border-dashed border-white/10 text-[9px] font-bold text-slate-400 hover:text-white hover:border-indigo-400 transition-all"
+                    >
+                      + {MODEL_LABELS[model]}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-[10px] text-slate-500 mt-2 leading-relaxed">
+                  Tried in order when the selected model is unavailable or out of quota. Safety blocks and key errors never fall back.
+                </p>
+              </div>
               <div>
                 <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Aspect Ratio</label>
                 <div className="grid grid-cols-4 gap-2">
                   {(['1:1', '4:3', '16:9', '9:16'] as const).map((ratio) => (
                     <button 
                       key={ratio}
-                      onClick={() => setSettings({ ...settings, aspectRatio: ratio })}
+                      onClick={() => changeSettings({ ...settings, aspectRatio: ratio })}
                       className={`py-2 text-[10px] font-bold rounded-lg border transition-all ${settings.aspectRatio === ratio ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
                     >
                       {ratio}
@@ -628,6 +2246,105 @@ const App: React.FC = () => {
                 </div>
               </div>
               
+              <div>
+                <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Influence Falloff</label>
+                <div className="grid grid-cols-5 gap-1 mb-3">
+                  {FALLOFF_OPTIONS.map(({ id, label }) => (
+                    <button 
+                      key={id}
+                      onClick={() => changeSettings({
+                        ...settings,
+                        falloff: id,
+                        // カスタムへ切り替えるときは現在のカーブを初期値として引き継ぐ
+                        customFalloff: id === 'custom' && settings.falloff !== 'custom'
+                          ? DEFAULT_CUSTOM_FALLOFF.map((_, i, arr) => Math.round(evaluateFalloff(settings.falloff, Math.min(i / (arr.length - 1), 0.9999), settings.customFalloff) * 100) / 100)
+                          : settings.customFalloff
+                      })}
+                      className={`py-2 text-[9px] font-bold rounded-lg border transition-all ${settings.falloff === id ? 'bg-red-600 border-red-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <FalloffCurveEditor
+                  falloff={settings.falloff}
+                  customCurve={settings.customFalloff}
+                  onChangeCurve={(curve) => changeSettings(prev => ({ ...prev, customFalloff: curve }))}
+                />
+                <div className="grid grid-cols-2 gap-2 mt-3">
+                  {([['center', 'From Card Center'], ['edge', 'From Nearest Edge']] as const).map(([mode, label]) => (
+                    <button 
+                      key={mode}
+                      onClick={() => changeSettings({ ...settings, distanceMode: mode })}
+                      className={`py-2 text-[10px] font-bold rounded-lg border transition-all ${settings.distanceMode === mode ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Concurrent Jobs</label>
+                <div className="grid grid-cols-4 gap-2">
+                  {[1, 2, 3, 4].map((limit) => (
+                    <button 
+                      key={limit}
+                      onClick={() => changeSettings({ ...settings, maxConcurrentJobs: limit })}
+                      className={`py-2 text-[10px] font-bold rounded-lg border transition-all ${settings.maxConcurrentJobs === limit ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+                    >
+                      {limit}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Prompt Review</label>
+                <button 
+                  onClick={() => changeSettings({ ...settings, reviewPrompts: !settings.reviewPrompts })}
+                  className={`w-full text-left px-4 py-3 rounded-xl border transition-all ${settings.reviewPrompts ? 'bg-indigo-600 border-indigo-400' : 'bg-slate-800 border-white/5 hover:bg-slate-700'}`}
+                >
+                  <div className="text-sm font-bold">{settings.reviewPrompts ? 'Review Before Generating' : 'Generate Immediately'}</div>
+                  <div className="text-[10px] opacity-60">Pause after analysis to approve, edit or re-analyze the prompt.</div>
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Layout Snapping</label>
+                <div className="grid grid-cols-2 gap-2">
+                  <button 
+                    onClick={() => changeSettings({ ...settings, snapToGrid: !settings.snapToGrid })}
+                    className={`py-2 text-[10px] font-bold rounded-lg border transition-all ${settings.snapToGrid ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+                  >
+                    Snap to Grid
+                  </button>
+                  <button 
+                    onClick={() => changeSettings({ ...settings, smartGuides: !settings.smartGuides })}
+                    className={`py-2 text-[10px] font-bold rounded-lg border transition-all ${settings.smartGuides ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+                  >
+                    Smart Guides
+                  </button>
+                </div>
+                <p className="mt-2 text-[10px] text-slate-500 px-1">Hold Alt while dragging to place freely.</p>
+              </div>
+
+              <div>
+                <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Reference Max Edge</label>
+                <div className="grid grid-cols-4 gap-2">
+                  {INGEST_MAX_EDGE_OPTIONS.map((edge) => (
+                    <button 
+                      key={edge}
+                      onClick={() => changeSettings({ ...settings, ingestMaxEdge: edge })}
+                      className={`py-2 text-[10px] font-bold rounded-lg border transition-all ${settings.ingestMaxEdge === edge ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+                    >
+                      {edge}px
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-2 text-[10px] text-slate-500 px-1">Images are downscaled to this size for the model when added. The original is kept for display and export.</p>
+              </div>
+
               <div className="h-px bg-white/5"></div>
               
               <div>
@@ -663,25 +2380,199 @@ const App: React.FC = () => {
           onMouseDown={(e) => e.stopPropagation()}
         >
           <div className="px-4 py-2 text-[10px] font-black uppercase text-slate-500 border-b border-white/5 mb-1">
-            {contextMenu.targetImageId ? 'Image Actions' : 'Synthesis Target'}
+            {contextMenu.targetImageId ? (contextMenuImage && isTextNode(contextMenuImage) ? 'Concept Actions' : 'Image Actions') : contextMenu.targetEmitterId ? 'Emitter Actions' : 'Synthesis Target'}
           </div>
           
           {contextMenu.targetImageId ? (
             <>
+              {contextMenuImage && !isTextNode(contextMenuImage) && (
+                <button 
+                  onClick={() => downloadImage(contextMenu.targetImageId!)}
+                  className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-emerald-600 transition-colors flex items-center gap-3 group"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-emerald-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                  Export Artifact
+                </button>
+              )}
+              {images.find(i => i.id === contextMenu.targetImageId)?.synthesisData && (
+                <button 
+                  onClick={() => regenerateFromCard(contextMenu.targetImageId!)}
+                  className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-indigo-600 transition-colors flex items-center gap-3 group"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-indigo-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                  Re-generate from Prompt
+                </button>
+              )}
+              {contextMenuImage?.synthesisData && (
+                <button 
+                  onClick={() => {
+                    setExportDialog({ target: 'recipe', recipeId: contextMenuImage.id });
+                    setContextMenu(null);
+                  }}
+                  className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-emerald-600 transition-colors flex items-center gap-3 group"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-emerald-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  Export Recipe Sheet
+                </button>
+              )}
+              {images.find(i => i.id === contextMenu.targetImageId)?.variantGroupId && (
+                <button 
+                  onClick={() => keepVariant(contextMenu.targetImageId!)}
+                  className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-sky-600 transition-colors flex items-center gap-3 group"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-sky-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                  Keep This Variation
+                </button>
+              )}
+              {contextMenuImage && !isTextNode(contextMenuImage) && !contextMenuImage.live && (
+                <button 
+                  onClick={() => {
+                    setEditingImageId(contextMenuImage.id);
+                    setContextMenu(null);
+                  }}
+                  className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-indigo-600 transition-colors flex items-center gap-3 group"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-indigo-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 2v14a2 2 0 002 2h14M2 6h14a2 2 0 012 2v14" />
+                  </svg>
+                  Crop & Transform
+                  {contextMenuImage.edit && <span className="ml-auto text-[8px] font-black uppercase tracking-widest text-indigo-300">Edited</span>}
+                </button>
+              )}
+              {contextMenuImage && !isTextNode(contextMenuImage) && !contextMenuImage.live && (
+                <button 
+                  onClick={() => {
+                    setMaskingImageId(contextMenuImage.id);
+                    setContextMenu(null);
+                  }}
+                  className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-fuchsia-600 transition-colors flex items-center gap-3 group"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-fuchsia-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4c0-2 2-3 2-5a4 4 0 118 0M15.232 5.232l3.536 3.536M9 15l8.5-8.5a2.5 2.5 0 013.536 3.536L12.5 18.5 9 19l.5-3.5z" />
+                  </svg>
+                  {contextMenuImage.mask ? 'Edit Focus Mask' : 'Paint Focus Mask'}
+                </button>
+              )}
+              {contextMenuImage?.live && (
+                <button 
+                  onClick={() => stopLive(contextMenuImage.id)}
+                  className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-red-600 transition-colors flex items-center gap-3 group"
+                  title="Keep the last captured frame"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-red-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 10h6v4H9z" />
+                  </svg>
+                  Stop Live Capture
+                </button>
+              )}
+              {contextMenuImage?.live && !liveCameraOn && (
+                <button 
+                  onClick={() => {
+                    setLiveCameraOn(true);
+                    setContextMenu(null);
+                  }}
+                  className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-red-600 transition-colors flex items-center gap-3 group"
+                  title="Open the camera and capture a new frame for every synthesis"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-red-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                  </svg>
+                  Resume Live Capture
+                </button>
+              )}
+              <button 
+                onClick={copyFromMenu}
+                title="Ctrl+C"
+                className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-indigo-600 transition-colors flex items-center gap-3 group"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-indigo-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                </svg>
+                {selectedIds.size > 1 ? `Copy ${selectedIds.size} Cards` : 'Copy'}
+              </button>
               <button 
-                onClick={() => downloadImage(contextMenu.targetImageId!)}
-                className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-emerald-600 transition-colors flex items-center gap-3 group"
+                onClick={duplicateSelection}
+                title="Ctrl+D"
+                className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-indigo-600 transition-colors flex items-center gap-3 group"
               >
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-emerald-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-indigo-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v6m3-3H9m-3 8h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                 </svg>
-                Export Artifact
+                Duplicate
               </button>
+              {selectedCards.length > 1 && selectedIds.has(contextMenu.targetImageId) && (
+                <div className="px-4 py-2 flex flex-col gap-2">
+                  <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Arrange {selectedCards.length}</span>
+                  <div className="grid grid-cols-3 gap-1">
+                    {ALIGN_OPTIONS.map(({ mode, label }) => (
+                      <button 
+                        key={mode}
+                        onClick={() => arrangeSelection(`Align ${mode}`, items => alignItems(items, mode))}
+                        className="text-[9px] font-bold py-1.5 rounded transition-all border bg-slate-800 border-white/5 text-slate-300 hover:bg-indigo-600 hover:text-white"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-3 gap-1">
+                    <button 
+                      onClick={() => arrangeSelection('Distribute horizontally', items => distributeItems(items, 'horizontal'))}
+                      disabled={selectedCards.length < 3}
+                      className="text-[9px] font-bold py-1.5 rounded transition-all border bg-slate-800 border-white/5 text-slate-300 hover:bg-indigo-600 hover:text-white disabled:opacity-30 disabled:pointer-events-none"
+                    >
+                      Dist. H
+                    </button>
+                    <button 
+                      onClick={() => arrangeSelection('Distribute vertically', items => distributeItems(items, 'vertical'))}
+                      disabled={selectedCards.length < 3}
+                      className="text-[9px] font-bold py-1.5 rounded transition-all border bg-slate-800 border-white/5 text-slate-300 hover:bg-indigo-600 hover:text-white disabled:opacity-30 disabled:pointer-events-none"
+                    >
+                      Dist. V
+                    </button>
+                    <button 
+                      onClick={() => arrangeSelection('Tidy grid', items => tidyGrid(items))}
+                      className="text-[9px] font-bold py-1.5 rounded transition-all border bg-slate-800 border-white/5 text-slate-300 hover:bg-indigo-600 hover:text-white"
+                    >
+                      Tidy
+                    </button>
+                  </div>
+                </div>
+              )}
+              {selectedIds.size > 1 && selectedIds.has(contextMenu.targetImageId) && (
+                <button 
+                  onClick={groupSelection}
+                  className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-teal-600 transition-colors flex items-center gap-3 group"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-teal-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z" />
+                  </svg>
+                  Group Selection ({selectedIds.size})
+                </button>
+              )}
+              {groups.some(group => group.memberIds.includes(contextMenu.targetImageId!)) && (
+                <button 
+                  onClick={() => removeFromGroup(contextMenu.targetImageId!)}
+                  className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-teal-600 transition-colors flex items-center gap-3 group"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-teal-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+                  </svg>
+                  Remove from Group
+                </button>
+              )}
               <div className="h-px bg-white/5 my-1"></div>
               <button 
                 onClick={() => {
-                  saveToHistory();
-                  setImages(prev => prev.filter(i => i.id !== contextMenu.targetImageId));
+                  removeCards(new Set([contextMenu.targetImageId!]), 'Dissolve node');
                   setContextMenu(null);
                 }}
                 className="w-full text-left px-4 py-2 text-xs font-medium text-red-400 hover:bg-red-600 hover:text-white transition-colors"
@@ -689,6 +2580,31 @@ const App: React.FC = () => {
                 Dissolve Node
               </button>
             </>
+          ) : contextMenu.targetEmitterId ? (
+            <>
+              <button 
+                onClick={() => {
+                  setContextMenu(null);
+                  fireEmitter(contextMenu.targetEmitterId!);
+                }}
+                className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-fuchsia-600 transition-colors flex items-center gap-3 group"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-fuchsia-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+                Re-fire Emitter
+              </button>
+              <div className="h-px bg-white/5 my-1"></div>
+              <button 
+                onClick={() => {
+                  removeEmitter(contextMenu.targetEmitterId!);
+                  setContextMenu(null);
+                }}
+                className="w-full text-left px-4 py-2 text-xs font-medium text-red-400 hover:bg-red-600 hover:text-white transition-colors"
+              >
+                Remove Emitter
+              </button>
+            </>
           ) : (
             <>
               <div className="px-4 py-2 flex flex-col gap-2">
@@ -703,11 +2619,25 @@ const App: React.FC = () => {
                     </button>
                   ))}
                 </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Variations</span>
+                  <div className="grid grid-cols-4 gap-1 w-32">
+                    {VARIATION_OPTIONS.map((count) => (
+                      <button 
+                        key={count}
+                        onClick={() => setVariationCount(count)}
+                        className={`text-[9px] font-bold py-1 rounded transition-all border ${variationCount === count ? 'bg-sky-600 border-sky-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400 hover:bg-slate-700'}`}
+                      >
+                        {count}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               </div>
               <div className="h-px bg-white/5 my-1"></div>
               <button 
                 onClick={() => {
-                  const height = genSize * (settings.aspectRatio === '16:9' ? 9/16 : settings.aspectRatio === '9:16' ? 16/9 : settings.aspectRatio === '4:3' ? 3/4 : 1);
+                  const { height } = getAspectDimensions(settings.aspectRatio, genSize);
                   synthesizeAtPos(contextMenu.canvasX - genSize/2, contextMenu.canvasY - height/2, genSize);
                 }}
                 className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-indigo-600 transition-colors flex items-center gap-3 group"
@@ -715,47 +2645,278 @@ const App: React.FC = () => {
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-indigo-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
                 </svg>
-                Create Image
+                {variationCount > 1 ? `Create ${variationCount} Variations` : 'Create Image'}
+              </button>
+              <button 
+                onClick={() => placeEmitter(contextMenu.canvasX, contextMenu.canvasY)}
+                className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-fuchsia-600 transition-colors flex items-center gap-3 group"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-fuchsia-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                Place Emitter
+              </button>
+              <button 
+                onClick={() => placeTextNode(contextMenu.canvasX, contextMenu.canvasY)}
+                className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-amber-600 transition-colors flex items-center gap-3 group"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-amber-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h10M4 18h7" />
+                </svg>
+                Add Text Concept
               </button>
+              {cardClipboard.hasCards() && (
+                <button 
+                  onClick={() => pasteCards({ x: contextMenu.canvasX, y: contextMenu.canvasY })}
+                  title="Ctrl+V"
+                  className="w-full text-left px-4 py-3 text-xs font-bold hover:bg-indigo-600 transition-colors flex items-center gap-3 group"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-indigo-400 group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                  </svg>
+                  Paste Cards
+                </button>
+              )}
             </>
           )}
         </div>
       )}
 
+      {/* Selected Emitter Details */}
+      {selectedEmitter && !selectedImage && (
+        <div className="fixed top-24 right-8 z-[150] w-80 bg-slate-900/95 backdrop-blur-xl border border-fuchsia-500/20 rounded-2xl shadow-2xl p-6 animate-in slide-in-from-right-4 duration-500 hud-element overflow-y-auto max-h-[80vh] custom-scrollbar">
+          <EmitterDetails
+            emitter={selectedEmitter}
+            versions={selectedEmitter.versionIds
+              .map(id => images.find(img => img.id === id))
+              .filter((img): img is ReferenceImage => !!img && !img.isGenerating)}
+            isFiring={firingEmitterIds.has(selectedEmitter.id)}
+            onChange={(patch) => updateEmitter(selectedEmitter.id, patch)}
+            onFire={() => fireEmitter(selectedEmitter.id)}
+            onSelectVersion={(id) => {
+              setSelectedIds(new Set([id]));
+              bringToFront(id);
+            }}
+          />
+        </div>
+      )}
+
       {/* Selected Node Details */}
       {selectedImage && (
         <div className="fixed top-24 right-8 z-[150] w-80 bg-slate-900/95 backdrop-blur-xl border border-white/10 rounded-2xl shadow-2xl p-6 animate-in slide-in-from-right-4 duration-500 hud-element overflow-y-auto max-h-[80vh] custom-scrollbar">
           <div className="flex flex-col gap-6">
-             <div className="aspect-square bg-slate-950 rounded-xl border border-white/10 overflow-hidden shadow-inner flex items-center justify-center">
-               <img src={selectedImage.base64} className="w-full h-full object-contain" alt="Manifestation" />
-             </div>
+             {isTextNode(selectedImage) ? (
+               <div className="flex flex-col gap-2">
+                 <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Text Concept</h4>
+                 <textarea
+                   value={selectedImage.text || ''}
+                   onChange={(e) => updateText(selectedImage.id, e.target.value)}
+                   rows={4}
+                   placeholder="e.g. brutalist architecture, golden hour"
+                   className="w-full bg-slate-950 border border-white/10 focus:border-amber-500/50 rounded-xl p-3 text-xs leading-relaxed text-amber-100 outline-none resize-none custom-scrollbar"
+                 />
+               </div>
+             ) : (
+               <div className="flex flex-col gap-2">
+                 <div className="aspect-square bg-slate-950 rounded-xl border border-white/10 overflow-hidden shadow-inner flex items-center justify-center">
+                   {/* マスクを重ねるため、画像と同じ縦横比の枠に入れる */}
+                   <div
+                     className="relative"
+                     style={selectedImage.width >= selectedImage.height
+                       ? { width: '100%', aspectRatio: `${selectedImage.width} / ${selectedImage.height}` }
+                       : { height: '100%', aspectRatio: `${selectedImage.width} / ${selectedImage.height}` }}
+                   >
+                     <img src={sourceThumbnail(selectedImage)} className="w-full h-full" alt="Manifestation" />
+                     {selectedImage.mask && (
+                       <div
+                         className="absolute inset-0 bg-fuchsia-500/50 pointer-events-none"
+                         style={{
+                           maskImage: `url(${selectedImage.mask})`,
+                           WebkitMaskImage: `url(${selectedImage.mask})`,
+                           maskSize: '100% 100%',
+                           WebkitMaskSize: '100% 100%'
+                         }}
+                       ></div>
+                     )}
+                   </div>
+                 </div>
+                 {!selectedImage.isGenerating && !selectedImage.live && (
+                   <div className="flex gap-2">
+                     <button
+                       onClick={() => setMaskingImageId(selectedImage.id)}
+                       className="flex-1 py-1.5 bg-slate-800 hover:bg-fuchsia-600 text-slate-300 hover:text-white text-[9px] font-black uppercase tracking-widest rounded-lg transition-colors"
+                     >
+                       {selectedImage.mask ? 'Edit Focus Mask' : 'Paint Focus Mask'}
+                     </button>
+                     {selectedImage.mask && (
+                       <button
+                         onClick={() => applyMask(selectedImage.id, undefined)}
+                         className="px-3 py-1.5 bg-slate-800 hover:bg-red-600 text-slate-400 hover:text-white text-[9px] font-black uppercase tracking-widest rounded-lg transition-colors"
+                       >
+                         Clear
+                       </button>
+                     )}
+                   </div>
+                 )}
+               </div>
+             )}
+
+             {selectedImage.variantGroupId && !selectedImage.isGenerating && (
+               <button
+                 onClick={() => keepVariant(selectedImage.id)}
+                 className="w-full py-2 bg-sky-600 hover:bg-sky-500 text-white text-[10px] font-black uppercase tracking-widest rounded-lg transition-colors"
+               >
+                 Keep This Variation · Discard {Math.max(0, (variantTotals.get(selectedImage.variantGroupId) || 1) - 1)}
+               </button>
+             )}
+
+             {!selectedImage.isGenerating && (
+               <InfluenceControls
+                 influence={selectedImage.influence || DEFAULT_INFLUENCE}
+                 onChange={(patch) => updateInfluence(selectedImage.id, patch)}
+               />
+             )}
+
+             {!selectedImage.isGenerating && (
+               <GenealogyPanel
+                 rootId={selectedImage.id}
+                 index={lineageIndex}
+                 onSelect={(id) => {
+                   setSelectedIds(new Set([id]));
+                   bringToFront(id);
+                 }}
+               />
+             )}
 
              {selectedImage.synthesisData && (
                <div className="flex flex-col gap-4">
-                 <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Synth Breakdown</h4>
+                 <div className="flex justify-between items-center gap-2">
+                   <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                     Synth Breakdown
+                     {selectedImage.synthesisData.preset && <span className="ml-2 text-indigo-400 normal-case tracking-normal">{selectedImage.synthesisData.preset.name}</span>}
+                   </h4>
+                   {selectedImage.synthesisData.model && (
+                     <span
+                       className={`text-[9px] font-bold truncate ${selectedImage.synthesisData.requestedModel ? 'text-amber-400' : 'text-slate-500'}`}
+                       title={selectedImage.synthesisData.requestedModel ? `Fell back from ${MODEL_LABELS[selectedImage.synthesisData.requestedModel]}` : undefined}
+                     >
+                       {MODEL_LABELS[selectedImage.synthesisData.model]}
+                       {selectedImage.synthesisData.requestedModel && ` · fallback from ${MODEL_LABELS[selectedImage.synthesisData.requestedModel]}`}
+                     </span>
+                   )}
+                 </div>
                  <div className="space-y-3">
                    {selectedImage.synthesisData.sources.map((item, idx) => (
                      <div key={idx} className="flex items-center gap-3 bg-slate-950/50 p-2 rounded-lg border border-white/5">
                        <div className="w-10 h-10 rounded border border-white/10 overflow-hidden flex-shrink-0">
-                         <img src={item.thumbnail} className="w-full h-full object-cover" alt="Ref" />
+                         <ReferenceThumbnail thumbnail={item.thumbnail} text={item.text} alt="Ref" />
                        </div>
                        <div className="flex-1 min-w-0">
                          <div className="flex justify-between items-center mb-1">
-                           <span className="text-[9px] font-black text-indigo-400">{item.contribution}% Influence</span>
+                           <span className={`text-[9px] font-black ${item.negative ? 'text-red-400' : 'text-indigo-400'}`}>
+                             {item.contribution}% {item.negative ? 'Avoidance' : 'Influence'}
+                           </span>
                          </div>
                          <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
-                           <div className="h-full bg-indigo-500 transition-all duration-1000" style={{ width: `${item.contribution}%` }}></div>
+                           <div className={`h-full transition-all duration-1000 ${item.negative ? 'bg-red-500' : 'bg-indigo-500'}`} style={{ width: `${item.contribution}%` }}></div>
                          </div>
                        </div>
                      </div>
                    ))}
                  </div>
+                 <div className="flex flex-col gap-2">
+                   <div className="flex justify-between items-center text-[10px] font-black uppercase tracking-widest text-slate-500">
+                     <span>Prompt</span>
+                     {selectedImage.synthesisData.originalPrompt && <span className="text-amber-400">Edited</span>}
+                   </div>
+                   <p className="text-[10px] leading-relaxed text-slate-400 bg-slate-950/50 p-3 rounded-lg border border-white/5 max-h-32 overflow-y-auto custom-scrollbar">
+                     {selectedImage.synthesisData.prompt}
+                   </p>
+                   <button
+                     onClick={() => regenerateFromCard(selectedImage.id)}
+                     className="w-full py-2 bg-slate-800 hover:bg-indigo-600 border border-white/5 text-slate-300 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-lg transition-colors"
+                   >
+                     Re-generate from Prompt
+                   </button>
+                 </div>
                </div>
              )}
           </div>
         </div>
       )}
 
+      {showHistory && (
+        <HistoryPanel
+          history={history}
+          onJump={jumpToHistory}
+          onUndo={undo}
+          onRedo={redo}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {editingImageId && images.some(img => img.id === editingImageId) && (
+        <ImageEditor
+          src={images.find(img => img.id === editingImageId)!.base64}
+          edit={images.find(img => img.id === editingImageId)!.edit}
+          onApply={(edit) => applyImageEdit(editingImageId, edit)}
+          onClose={() => setEditingImageId(null)}
+        />
+      )}
+
+      {maskingImageId && images.some(img => img.id === maskingImageId) && (() => {
+        const target = images.find(img => img.id === maskingImageId)!;
+        return (
+          <MaskEditor
+            src={sourceThumbnail(target)}
+            aspect={target.height / target.width}
+            mask={target.mask}
+            onApply={(mask) => applyMask(target.id, mask)}
+            onClose={() => setMaskingImageId(null)}
+          />
+        );
+      })()}
+
+      {exportDialog && (
+        <ExportDialog
+          boardName={currentBoardName}
+          boardCards={visibleImages}
+          selectionCards={selectedCards}
+          recipeCard={images.find(img => img.id === exportDialog.recipeId) || null}
+          initialTarget={exportDialog.target}
+          onClose={() => setExportDialog(null)}
+        />
+      )}
+
+      {showCamera && (
+        <CameraCapture
+          source={getCameraSource()}
+          onCapture={addCameraFrame}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
+
+      {showPresetEditor && (
+        <BlendPresetEditor
+          presets={settings.blendPresets}
+          activeId={resolveBlendPreset(settings.blendPresets, settings.blendPresetId).id}
+          onChange={(blendPresets, blendPresetId) => changeSettings(prev => ({ ...prev, blendPresets, blendPresetId }))}
+          onClose={() => setShowPresetEditor(false)}
+        />
+      )}
+
+      {promptReview && (
+        <PromptReviewPanel
+          title={promptReview.title}
+          prompt={promptReview.prompt}
+          sources={promptReview.sources}
+          isRegenerating={promptReview.isRegenerating}
+          onRegenerate={promptReview.canRegenerate ? regenerateReviewPrompt : undefined}
+          onApprove={closePromptReview}
+          onCancel={() => closePromptReview(null)}
+        />
+      )}
+
       {error && (
         <div className="fixed bottom-8 right-8 z-[200] animate-in slide-in-from-bottom-8 duration-300 hud-element">
           <div className="flex items-center gap-4 bg-red-900/50 backdrop-blur-2xl border border-red-500/40 p-4 rounded-2xl shadow-2xl">
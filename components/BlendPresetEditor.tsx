@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { BlendPreset, ScoreBand } from '../types';
+import { BUILT_IN_BLEND_PRESETS, buildSystemInstruction, resolveBlendPreset, validateScoreBand } from '../services/blendPresets';
+
+interface BlendPresetEditorProps {
+  presets: BlendPreset[];
+  activeId: string;
+  onChange: (presets: BlendPreset[], activeId: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-white/10 focus:border-indigo-500/50 rounded-lg px-3 py-2 text-xs text-slate-200 outline-none';
+
+// スコアは1〜10で付くので、帯の範囲もその中に収める
+const clampScore = (value: number) => Math.max(1, Math.min(10, Math.round(value) || 1));
+
+// 組み込みプリセットを編集用に写す（帯のオブジェクトを共有しない）
+const copyPreset = (preset: BlendPreset): BlendPreset => ({ ...preset, scoreBands: preset.scoreBands.map(band => ({ ...band })) });
+
+const BlendPresetEditor: React.FC<BlendPresetEditorProps> = ({ presets, activeId, onChange, onClose }) => {
+  const [editingId, setEditingId] = useState(activeId);
+  const [showPreview, setShowPreview] = useState(false);
+  const editing = resolveBlendPreset(presets, editingId);
+  const builtIn = BUILT_IN_BLEND_PRESETS.find(preset => preset.id === editing.id);
+
+  const updateEditing = (patch: Partial<BlendPreset>) => {
+    onChange(presets.map(preset => preset.id === editing.id ? { ...preset, ...patch } : preset), activeId);
+  };
+
+  const updateBand = (id: string, patch: Partial<ScoreBand>) => {
+    updateEditing({ scoreBands: editing.scoreBands.map(band => band.id === id ? { ...band, ...patch } : band) });
+  };
+
+  const duplicate = () => {
+    const copy = { ...editing, id: uuidv4(), name: `${editing.name} Copy`, scoreBands: editing.scoreBands.map(band => ({ ...band })) };
+    onChange([...presets, copy], activeId);
+    setEditingId(copy.id);
+  };
+
+  const remove = () => {
+    if (presets.length <= 1) return;
+    const rest = presets.filter(preset => preset.id !== editing.id);
+    // 使用中のプリセットを消した場合は残りの先頭に切り替える
+    onChange(rest, activeId === editing.id ? rest[0].id : activeId);
+    setEditingId(rest[0].id);
+  };
+
+  const restoreBuiltIns = () => {
+    const missing = BUILT_IN_BLEND_PRESETS.filter(preset => !presets.some(p => p.id === preset.id));
+    onChange([...presets, ...missing.map(copyPreset)], activeId);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[260] flex items-center justify-center p-6 bg-slate-950/70 backdrop-blur-md animate-in fade-in duration-200 hud-element" onClick={onClose}>
+      <div className="relative w-full max-w-4xl max-h-[90vh] flex flex-col bg-slate-900 border border-white/5 rounded-3xl shadow-2xl p-8" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-500 hover:text-white transition-colors">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+        <h3 className="text-xl font-heading font-black mb-6 uppercase tracking-widest text-indigo-400">Blend Presets</h3>
+
+        <div className="flex gap-6 min-h-0 flex-1">
+          <div className="w-52 flex flex-col gap-1 overflow-y-auto custom-scrollbar pr-1">
+            {presets.map((preset) => (
+              <button
+                key={preset.id}
+                onClick={() => setEditingId(preset.id)}
+                className={`flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-left text-[11px] font-bold transition-colors ${preset.id === editing.id ? 'bg-slate-800 text-white' : 'text-slate-400 hover:bg-slate-800/60'}`}
+              >
+                <span className="truncate">{preset.name || 'Untitled'}</span>
+                {preset.id === activeId && <span className="text-[8px] font-black uppercase tracking-widest text-indigo-400 flex-shrink-0">Active</span>}
+              </button>
+            ))}
+            <div className="flex flex-col gap-1 mt-3">
+              <button onClick={duplicate} className="py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-300 transition-colors">Duplicate</button>
+              {BUILT_IN_BLEND_PRESETS.some(preset => !presets.some(p => p.id === preset.id)) && (
+                <button onClick={restoreBuiltIns} className="py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-300 transition-colors">Restore Built-ins</button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex-1 flex flex-col gap-4 overflow-y-auto custom-scrollbar pr-1">
+            <div className="flex gap-3 items-end">
+              <div className="flex-1">
+                <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Name</label>
+                <input value={editing.name} onChange={(e) => updateEditing({ name: e.target.value })} className={inputClass} />
+              </div>
+              <div className="w-40">
+                <label className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">
+                  <span>Temperature</span>
+                  <span className="font-mono text-slate-300">{editing.temperature.toFixed(2)}</span>
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={2}
+                  step={0.05}
+                  value={editing.temperature}
+                  onChange={(e) => updateEditing({ temperature: parseFloat(e.target.value) })}
+                  className="w-full accent-indigo-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">System Instruction</label>
+              <textarea
+                value={editing.instruction}
+                onChange={(e) => updateEditing({ instruction: e.target.value })}
+                rows={8}
+                className={`${inputClass} leading-relaxed resize-none custom-scrollbar font-mono`}
+              />
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="text-[10px] font-black uppercase tracking-widest text-slate-500">Score Bands</label>
+                <button
+                  onClick={() => updateEditing({ scoreBands: [...editing.scoreBands, { id: uuidv4(), label: 'Band', min: 1, max: 10, rule: '' }] })}
+                  className="text-[9px] font-black uppercase tracking-widest text-indigo-400 hover:text-indigo-300"
+                >
+                  + Add Band
+                </button>
+              </div>
+              <div className="flex flex-col gap-2">
+                {editing.scoreBands.map((band) => {
+                  const bandError = validateScoreBand(band);
+                  return (
+                    <div key={band.id} className={`flex gap-2 items-start bg-slate-950/50 p-2 rounded-lg border ${bandError ? 'border-red-500/50' : 'border-white/5'}`}>
+                      <div className="w-28 flex flex-col gap-1">
+                        <input value={band.label} onChange={(e) => updateBand(band.id, { label: e.target.value })} className={inputClass} />
+                        <div className="flex items-center gap-1">
+                          <input
+                            type="number"
+                            min={1}
+                            max={10}
+                            value={band.min}
+                            onChange={(e) => updateBand(band.id, { min: clampScore(Number(e.target.value)) })}
+                            className={`${inputClass} px-2 font-mono`}
+                          />
+                          <span className="text-slate-600 text-xs">–</span>
+                          <input
+                            type="number"
+                            min={1}
+                            max={10}
+                            value={band.max}
+                            onChange={(e) => updateBand(band.id, { max: clampScore(Number(e.target.value)) })}
+                            className={`${inputClass} px-2 font-mono`}
+                          />
+                        </div>
+                        {bandError && <p className="text-[9px] leading-snug text-red-400">{bandError} Skipped in the prompt.</p>}
+                      </div>
+                      <textarea
+                        value={band.rule}
+                        onChange={(e) => updateBand(band.id, { rule: e.target.value })}
+                        rows={3}
+                        className={`${inputClass} flex-1 leading-relaxed resize-none custom-scrollbar`}
+                      />
+                      <button
+                        onClick={() => updateEditing({ scoreBands: editing.scoreBands.filter(b => b.id !== band.id) })}
+                        className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                        title="Remove band"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div>
+              <button
+                onClick={() => setShowPreview(!showPreview)}
+                className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-300"
+              >
+                {showPreview ? '▾' : '▸'} Full Instruction Preview
+              </button>
+              {showPreview && (
+                <pre className="mt-2 text-[10px] leading-relaxed text-slate-400 bg-slate-950/50 p-3 rounded-lg border border-white/5 max-h-60 overflow-y-auto custom-scrollbar whitespace-pre-wrap">
+                  {buildSystemInstruction(editing)}
+                </pre>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 mt-6">
+          <div className="flex gap-2">
+            <button
+              onClick={remove}
+              disabled={presets.length <= 1}
+              className="px-4 py-3 text-xs font-bold text-slate-400 hover:text-red-400 disabled:opacity-30 transition-colors"
+            >
+              Delete
+            </button>
+            {builtIn && (
+              <button
+                onClick={() => updateEditing(copyPreset(builtIn))}
+                className="px-4 py-3 text-xs font-bold text-slate-400 hover:text-white transition-colors"
+              >
+                Reset to Default
+              </button>
+            )}
+          </div>
+          <button
+            onClick={() => onChange(presets, editing.id)}
+            disabled={editing.id === activeId}
+            className="px-6 py-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-400 rounded-xl text-xs font-black uppercase tracking-widest text-white transition-colors"
+          >
+            {editing.id === activeId ? 'In Use' : 'Use This Preset'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BlendPresetEditor;
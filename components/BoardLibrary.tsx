@@ -0,0 +1,160 @@
+import React, { useRef, useState } from 'react';
+import { BoardSummary } from '../types';
+import { ARCHIVE_EXTENSION } from '../services/archiveService';
+
+interface BoardLibraryProps {
+  boards: BoardSummary[];
+  currentBoardId: string | null;
+  onCreate: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const BoardLibrary: React.FC<BoardLibraryProps> = ({
+  boards,
+  currentBoardId,
+  onCreate,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+  onClose
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const startRename = (board: BoardSummary) => {
+    setEditingId(board.id);
+    setDraftName(board.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const sortedBoards = [...boards].sort((a, b) => b.timestamp - a.timestamp);
+
+  return (
+    <div className="fixed inset-0 z-[250] flex items-center justify-center p-6 bg-slate-950/80 backdrop-blur-md animate-in fade-in duration-300 hud-element" onClick={onClose}>
+      <div className="relative w-full max-w-lg bg-slate-900 border border-white/5 rounded-3xl shadow-2xl p-8" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-500 hover:text-white transition-colors">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+        <h3 className="text-xl font-heading font-black mb-8 uppercase tracking-widest text-indigo-400">Board Library</h3>
+
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          <button
+            onClick={onCreate}
+            className="flex items-center justify-between px-4 py-3 bg-indigo-600/10 border border-indigo-500/30 rounded-xl text-indigo-400 text-sm font-bold hover:bg-indigo-600/20 transition-all"
+          >
+            New Board
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex items-center justify-between px-4 py-3 bg-slate-800 border border-white/5 rounded-xl text-slate-300 text-sm font-bold hover:bg-slate-700 transition-all"
+          >
+            Import {ARCHIVE_EXTENSION}
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={`${ARCHIVE_EXTENSION},application/zip`}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div className="flex flex-col gap-2 max-h-[50vh] overflow-y-auto custom-scrollbar pr-1">
+          {sortedBoards.length === 0 && (
+            <p className="text-[11px] text-slate-500 text-center py-8">No saved boards yet.</p>
+          )}
+          {sortedBoards.map((board) => {
+            const isCurrent = board.id === currentBoardId;
+            return (
+              <div
+                key={board.id}
+                className={`flex items-center gap-3 p-2 rounded-xl border transition-all ${isCurrent ? 'bg-indigo-600/20 border-indigo-400/50' : 'bg-slate-800 border-white/5 hover:bg-slate-700'}`}
+              >
+                <button
+                  onClick={() => onOpen(board.id)}
+                  className="w-12 h-12 rounded-lg border border-white/10 overflow-hidden flex-shrink-0 bg-slate-950"
+                  title="Open board"
+                >
+                  {board.preview && <img src={board.preview} className="w-full h-full object-cover" alt="Board preview" />}
+                </button>
+                <div className="flex-1 min-w-0">
+                  {editingId === board.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full bg-slate-950 border border-indigo-500/40 rounded px-2 py-1 text-sm font-bold text-white outline-none"
+                    />
+                  ) : (
+                    <button onClick={() => onOpen(board.id)} className="block w-full text-left text-sm font-bold truncate">
+                      {board.name}
+                    </button>
+                  )}
+                  <div className="text-[10px] text-slate-500 font-mono">
+                    {board.nodeCount} nodes · {formatTimestamp(board.timestamp)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 text-slate-400">
+                  <button onClick={() => startRename(board)} className="p-1.5 rounded hover:bg-white/10 hover:text-white transition-colors" title="Rename">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+                  </button>
+                  <button onClick={() => onExport(board.id)} className="p-1.5 rounded hover:bg-white/10 hover:text-white transition-colors" title={`Export ${ARCHIVE_EXTENSION}`}>
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                  </button>
+                  <button onClick={() => onDuplicate(board.id)} className="p-1.5 rounded hover:bg-white/10 hover:text-white transition-colors" title="Duplicate">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Delete "${board.name}"? This cannot be undone.`)) onDelete(board.id);
+                    }}
+                    className="p-1.5 rounded hover:bg-red-600 hover:text-white transition-colors"
+                    title="Delete"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BoardLibrary;
@@ -0,0 +1,146 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CameraSession, CameraSource } from '../services/camera';
+
+interface CameraCaptureProps {
+  source: CameraSource;
+  // live: 合成のたびに撮り直すライブカードとして置く
+  onCapture: (frame: string, live: boolean) => void;
+  onClose: () => void;
+}
+
+const COUNTDOWN_OPTIONS = [0, 3, 5];
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ source, onCapture, onClose }) => {
+  const [session, setSession] = useState<CameraSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [countdown, setCountdown] = useState(3);
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const [snapshot, setSnapshot] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    let opened: CameraSession | null = null;
+    let cancelled = false;
+    source.open()
+      .then((s) => {
+        if (cancelled) {
+          s.close();
+          return;
+        }
+        opened = s;
+        setSession(s);
+      })
+      .catch((e: Error) => {
+        if (!cancelled) setError(e.message);
+      });
+    return () => {
+      cancelled = true;
+      opened?.close();
+    };
+  }, [source]);
+
+  useEffect(() => {
+    if (videoRef.current && session?.stream) videoRef.current.srcObject = session.stream;
+  }, [session, snapshot]);
+
+  // カウントダウンが0になった時点のフレームを撮る
+  useEffect(() => {
+    if (remaining === null || !session) return;
+    if (remaining > 0) {
+      const timer = window.setTimeout(() => setRemaining(remaining - 1), 1000);
+      return () => window.clearTimeout(timer);
+    }
+    const frame = session.capture();
+    setRemaining(null);
+    if (frame) setSnapshot(frame);
+    else setError("The camera has not delivered a frame yet. Try again in a moment.");
+  }, [remaining, session]);
+
+  const startCapture = () => {
+    setError(null);
+    setRemaining(countdown);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[260] flex items-center justify-center p-6 bg-slate-950/70 backdrop-blur-md animate-in fade-in duration-200 hud-element" onClick={onClose}>
+      <div className="relative w-full max-w-2xl flex flex-col bg-slate-900 border border-white/5 rounded-3xl shadow-2xl p-8" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-500 hover:text-white transition-colors">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+        <h3 className="text-xl font-heading font-black mb-6 uppercase tracking-widest text-indigo-400">Camera Capture</h3>
+
+        <div className="relative aspect-video w-full rounded-2xl overflow-hidden bg-slate-950 border border-white/5 flex items-center justify-center">
+          {snapshot ? (
+            <img src={snapshot} alt="Captured frame" className="w-full h-full object-contain" />
+          ) : session?.stream ? (
+            <video ref={videoRef} autoPlay muted playsInline className="w-full h-full object-contain" />
+          ) : !error && (
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 animate-pulse">Opening camera...</span>
+          )}
+          {remaining !== null && remaining > 0 && (
+            <div className="absolute inset-0 flex items-center justify-center bg-slate-950/30 pointer-events-none">
+              <span className="text-7xl font-heading font-black text-white drop-shadow-lg">{remaining}</span>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <p className="mt-4 text-xs font-bold text-red-400">{error}</p>
+        )}
+
+        <div className="mt-6 flex items-center justify-between gap-4">
+          {snapshot ? (
+            <>
+              <button
+                onClick={() => setSnapshot(null)}
+                className="px-4 py-2.5 rounded-xl bg-slate-800 hover:bg-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-300 transition-colors"
+              >
+                Retake
+              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onCapture(snapshot, true)}
+                  className="px-4 py-2.5 rounded-xl bg-slate-800 hover:bg-red-600 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:text-white transition-colors"
+                  title="Re-captures from the camera before each synthesis"
+                >
+                  Add as Live Card
+                </button>
+                <button
+                  onClick={() => onCapture(snapshot, false)}
+                  className="px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-[10px] font-black uppercase tracking-widest text-white transition-colors"
+                >
+                  Add to Board
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Timer</span>
+                {COUNTDOWN_OPTIONS.map((seconds) => (
+                  <button
+                    key={seconds}
+                    onClick={() => setCountdown(seconds)}
+                    disabled={remaining !== null}
+                    className={`w-10 py-1.5 text-[10px] font-bold rounded-lg border transition-all ${countdown === seconds ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+                  >
+                    {seconds === 0 ? 'Off' : `${seconds}s`}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={startCapture}
+                disabled={!session || remaining !== null}
+                className="px-6 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-30 disabled:pointer-events-none text-[10px] font-black uppercase tracking-widest text-white transition-colors"
+              >
+                {remaining !== null ? 'Capturing...' : 'Capture'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
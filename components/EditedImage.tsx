@@ -0,0 +1,48 @@
+import React from 'react';
+import { ImageEdit } from '../types';
+import { getEditTransform, isQuarterTurn } from '../services/imageEdit';
+
+interface EditedImageProps {
+  src: string;
+  edit?: ImageEdit;
+  // 表示先の大きさ（px）。編集後の縦横比と一致している前提
+  width: number;
+  height: number;
+  alt: string;
+}
+
+// 元画像を切り抜き・回転・反転して表示する（画素は書き換えない）
+const EditedImage: React.FC<EditedImageProps> = ({ src, edit, width, height, alt }) => {
+  if (!edit) return <img src={src} alt={alt} className="w-full h-full object-cover" />;
+  const { crop } = edit;
+  const quarter = isQuarterTurn(edit.rotation);
+  return (
+    <div className="relative w-full h-full overflow-hidden">
+      <div
+        className="absolute overflow-hidden"
+        style={{
+          left: '50%',
+          top: '50%',
+          width: quarter ? height : width,
+          height: quarter ? width : height,
+          transform: `translate(-50%, -50%) ${getEditTransform(edit)}`
+        }}
+      >
+        <img
+          src={src}
+          alt={alt}
+          className="absolute"
+          style={{
+            maxWidth: 'none',
+            width: `${100 / crop.width}%`,
+            height: `${100 / crop.height}%`,
+            left: `${(-crop.x / crop.width) * 100}%`,
+            top: `${(-crop.y / crop.height) * 100}%`
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default EditedImage;
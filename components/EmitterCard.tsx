@@ -0,0 +1,144 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { SynthesisEmitter, getAspectDimensions } from '../types';
+import ReferenceThumbnail from './ReferenceThumbnail';
+
+export interface EmitterCapture {
+  id: string;
+  thumbnail: string;
+  text?: string;
+  contribution: number;
+  negative?: boolean;
+}
+
+interface EmitterCardProps {
+  emitter: SynthesisEmitter;
+  captures: EmitterCapture[];
+  isSelected: boolean;
+  isFiring: boolean;
+  onUpdatePosition: (id: string, x: number, y: number) => void;
+  onSelect: (id: string) => void;
+  onFire: (id: string) => void;
+  onRemove: (id: string) => void;
+  zoom: number;
+}
+
+const MAX_PREVIEW = 6;
+
+const EmitterCard: React.FC<EmitterCardProps> = ({
+  emitter,
+  captures,
+  isSelected,
+  isFiring,
+  onUpdatePosition,
+  onSelect,
+  onFire,
+  onRemove,
+  zoom
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const dragOffset = useRef({ x: 0, y: 0 });
+  const { width, height } = getAspectDimensions(emitter.aspectRatio, emitter.size);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if ((e.target as HTMLElement).closest('button')) return;
+    onSelect(emitter.id);
+    setIsDragging(true);
+    dragOffset.current = {
+      x: e.clientX / zoom - emitter.x,
+      y: e.clientY / zoom - emitter.y
+    };
+  };
+
+  useEffect(() => {
+    if (!isDragging) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      onUpdatePosition(emitter.id, e.clientX / zoom - dragOffset.current.x, e.clientY / zoom - dragOffset.current.y);
+    };
+    const handleMouseUp = () => setIsDragging(false);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragging, emitter.id, zoom, onUpdatePosition]);
+
+  return (
+    <div
+      data-emitter-id={emitter.id}
+      className={`absolute emitter-card select-none ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+      style={{ left: emitter.x, top: emitter.y, width, height }}
+      onMouseDown={handleMouseDown}
+    >
+      {/* Capture Radius */}
+      <div
+        className="absolute pointer-events-none rounded-full border-2 border-dashed border-fuchsia-500/20"
+        style={{
+          left: width / 2 - emitter.influenceRadius,
+          top: height / 2 - emitter.influenceRadius,
+          width: emitter.influenceRadius * 2,
+          height: emitter.influenceRadius * 2
+        }}
+      ></div>
+
+      <div className={`relative w-full h-full rounded-lg border-2 border-dashed flex flex-col items-center justify-center gap-3 bg-fuchsia-950/20 backdrop-blur-sm transition-colors
+        ${isSelected ? 'border-fuchsia-400 shadow-[0_0_25px_rgba(217,70,239,0.35)]' : 'border-fuchsia-500/50'}`}
+      >
+        <div className="absolute top-2 left-2 right-2 flex items-center justify-between">
+          <span className="text-[10px] font-black uppercase tracking-widest text-fuchsia-300 truncate">{emitter.name}</span>
+          <span className="text-[9px] font-mono text-fuchsia-300/60">v{emitter.versionIds.length}</span>
+        </div>
+
+        {/* Live capture preview */}
+        <div className="flex flex-wrap justify-center gap-1 px-3 pointer-events-none">
+          {captures.slice(0, MAX_PREVIEW).map((capture) => (
+            <div key={capture.id} className={`relative w-9 h-9 rounded border overflow-hidden ${capture.negative ? 'border-red-500/70' : 'border-white/20'}`}>
+              <ReferenceThumbnail thumbnail={capture.thumbnail} text={capture.text} alt="Captured reference" />
+              <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[8px] font-mono text-center text-white">{capture.contribution}%</span>
+            </div>
+          ))}
+          {captures.length > MAX_PREVIEW && (
+            <div className="w-9 h-9 rounded border border-white/10 flex items-center justify-center text-[9px] font-bold text-slate-400">+{captures.length - MAX_PREVIEW}</div>
+          )}
+          {captures.length === 0 && (
+            <span className="text-[10px] text-slate-500 font-bold">No references in range</span>
+          )}
+        </div>
+
+        <button
+          onClick={(e) => { e.stopPropagation(); onFire(emitter.id); }}
+          disabled={isFiring || captures.length === 0}
+          className="px-4 py-2 bg-fuchsia-600 hover:bg-fuchsia-500 disabled:bg-slate-700 disabled:text-slate-400 text-white text-[10px] font-black uppercase tracking-widest rounded-lg transition-colors flex items-center gap-2"
+        >
+          {isFiring ? (
+            <div className="h-3 w-3 border-2 border-white/20 border-t-white rounded-full animate-spin"></div>
+          ) : (
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+            </svg>
+          )}
+          {isFiring ? 'Firing' : 'Fire'}
+        </button>
+
+        <div className="absolute bottom-2 left-2 text-[9px] font-mono text-fuchsia-300/50">
+          {emitter.aspectRatio} · {emitter.model}
+        </div>
+
+        {!isFiring && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onRemove(emitter.id); }}
+            className="absolute bottom-2 right-2 p-1 text-slate-500 hover:text-red-400 transition-colors"
+            title="Remove emitter"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmitterCard;
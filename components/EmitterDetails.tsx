@@ -0,0 +1,123 @@
+import React from 'react';
+import { SynthesisEmitter, ReferenceImage, ImageModel, AspectRatio } from '../types';
+
+interface EmitterDetailsProps {
+  emitter: SynthesisEmitter;
+  versions: ReferenceImage[];
+  isFiring: boolean;
+  onChange: (patch: Partial<SynthesisEmitter>) => void;
+  onFire: () => void;
+  onSelectVersion: (id: string) => void;
+}
+
+const MODEL_OPTIONS: { id: ImageModel; label: string }[] = [
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash' },
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro' },
+  { id: 'imagen-4.0-generate-001', label: 'Imagen 4' }
+];
+
+const SIZE_OPTIONS = [200, 400, 600, 800];
+const ASPECT_OPTIONS: AspectRatio[] = ['1:1', '4:3', '16:9', '9:16'];
+
+const EmitterDetails: React.FC<EmitterDetailsProps> = ({ emitter, versions, isFiring, onChange, onFire, onSelectVersion }) => (
+  <div className="flex flex-col gap-6">
+    <div className="flex flex-col gap-2">
+      <h4 className="text-[10px] font-black uppercase tracking-widest text-fuchsia-400">Synthesis Emitter</h4>
+      <input
+        value={emitter.name}
+        onChange={(e) => onChange({ name: e.target.value })}
+        className="w-full bg-slate-950 border border-white/10 rounded-lg px-3 py-2 text-sm font-bold text-white outline-none focus:border-fuchsia-500/50"
+      />
+    </div>
+
+    <div className="flex flex-col gap-2">
+      <label className="text-[10px] font-black uppercase tracking-widest text-slate-500">Size</label>
+      <div className="grid grid-cols-4 gap-1">
+        {SIZE_OPTIONS.map((size) => (
+          <button 
+            key={size}
+            onClick={() => onChange({ size })}
+            className={`text-[9px] font-bold py-1.5 rounded transition-all border ${emitter.size === size ? 'bg-fuchsia-600 border-fuchsia-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400 hover:bg-slate-700'}`}
+          >
+            {size === 200 ? 'S' : size === 400 ? 'M' : size === 600 ? 'L' : 'XL'}
+          </button>
+        ))}
+      </div>
+    </div>
+
+    <div className="flex flex-col gap-2">
+      <label className="text-[10px] font-black uppercase tracking-widest text-slate-500">Aspect Ratio</label>
+      <div className="grid grid-cols-4 gap-1">
+        {ASPECT_OPTIONS.map((ratio) => (
+          <button 
+            key={ratio}
+            onClick={() => onChange({ aspectRatio: ratio })}
+            className={`py-1.5 text-[9px] font-bold rounded border transition-all ${emitter.aspectRatio === ratio ? 'bg-fuchsia-600 border-fuchsia-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+          >
+            {ratio}
+          </button>
+        ))}
+      </div>
+    </div>
+
+    <div className="flex flex-col gap-2">
+      <label className="text-[10px] font-black uppercase tracking-widest text-slate-500">Model</label>
+      <div className="grid grid-cols-1 gap-1">
+        {MODEL_OPTIONS.map(({ id, label }) => (
+          <button 
+            key={id}
+            onClick={() => onChange({ model: id })}
+            className={`text-left px-3 py-2 text-[10px] font-bold rounded border transition-all ${emitter.model === id ? 'bg-fuchsia-600 border-fuchsia-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+
+    <div className="flex flex-col gap-3">
+      <div className="flex justify-between items-center text-[10px] font-black text-slate-500 uppercase tracking-widest">
+        <span>Capture Radius</span>
+        <span className="text-fuchsia-400 font-mono">{Math.round(emitter.influenceRadius)}px</span>
+      </div>
+      <div className="relative h-2 flex items-center">
+        <div className="absolute left-0 right-0 h-0.5 bg-fuchsia-500/20 rounded-full"></div>
+        <input 
+          type="range" min="300" max="3000" step="50" value={emitter.influenceRadius}
+          onMouseDown={(e) => e.stopPropagation()}
+          onChange={(e) => onChange({ influenceRadius: parseFloat(e.target.value) })}
+          className="w-full h-2 bg-transparent appearance-none cursor-pointer accent-fuchsia-500 relative z-10"
+        />
+      </div>
+    </div>
+
+    <button
+      onClick={onFire}
+      disabled={isFiring}
+      className="w-full py-3 bg-fuchsia-600 hover:bg-fuchsia-500 disabled:bg-slate-700 text-white font-black text-xs uppercase tracking-widest rounded-xl transition-colors"
+    >
+      {isFiring ? 'Firing…' : 'Re-fire Emitter'}
+    </button>
+
+    {versions.length > 0 && (
+      <div className="flex flex-col gap-2">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Versions</h4>
+        <div className="grid grid-cols-4 gap-2">
+          {versions.map((version, idx) => (
+            <button
+              key={version.id}
+              onClick={() => onSelectVersion(version.id)}
+              className="relative aspect-square rounded border border-white/10 overflow-hidden hover:border-fuchsia-400 transition-colors"
+              title={`Version ${idx + 1}`}
+            >
+              <img src={version.base64} className="w-full h-full object-cover" alt={`Version ${idx + 1}`} />
+              <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[8px] font-mono text-white">v{idx + 1}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+export default EmitterDetails;
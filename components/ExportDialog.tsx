@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ReferenceImage } from '../types';
+import { errorMessage } from '../services/errors';
+import { EXPORT_SCALES, ExportBackground, downloadPng, renderCardsImage, renderRecipeSheet } from '../services/exportImage';
+
+export type ExportTarget = 'board' | 'selection' | 'recipe';
+
+interface ExportDialogProps {
+  boardName: string;
+  // 盤面に描画されているカード（重なり順）
+  boardCards: ReferenceImage[];
+  selectionCards: ReferenceImage[];
+  // レシピを書き出せる合成済みカード
+  recipeCard: ReferenceImage | null;
+  initialTarget: ExportTarget;
+  onClose: () => void;
+}
+
+const BACKGROUNDS: { value: ExportBackground; label: string }[] = [
+  { value: 'dark', label: 'Dark' },
+  { value: 'light', label: 'Light' },
+  { value: 'transparent', label: 'Transparent' }
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ boardName, boardCards, selectionCards, recipeCard, initialTarget, onClose }) => {
+  const [target, setTarget] = useState<ExportTarget>(initialTarget);
+  const [scale, setScale] = useState(2);
+  const [background, setBackground] = useState<ExportBackground>('dark');
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targets: { value: ExportTarget; label: string; disabled: boolean }[] = [
+    { value: 'board', label: `Board (${boardCards.length})`, disabled: boardCards.length === 0 },
+    { value: 'selection', label: `Selection (${selectionCards.length})`, disabled: selectionCards.length === 0 },
+    { value: 'recipe', label: 'Recipe Sheet', disabled: !recipeCard?.synthesisData }
+  ];
+
+  const handleExport = async () => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      const options = { scale, background };
+      if (target === 'recipe' && recipeCard) {
+        downloadPng(await renderRecipeSheet(recipeCard, options), `${boardName}-recipe-${recipeCard.id.slice(0, 8)}`);
+      } else {
+        const cards = target === 'selection' ? selectionCards : boardCards;
+        downloadPng(await renderCardsImage(cards, options), `${boardName}-${target}`);
+      }
+      onClose();
+    } catch (e) {
+      setError(errorMessage(e, "Export failed."));
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const optionClass = (active: boolean) => `py-2 text-[10px] font-bold rounded-lg border transition-all disabled:opacity-30 disabled:pointer-events-none ${active ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`;
+
+  return (
+    <div className="fixed inset-0 z-[260] flex items-center justify-center p-6 bg-slate-950/70 backdrop-blur-md animate-in fade-in duration-200 hud-element" onClick={onClose}>
+      <div className="relative w-full max-w-md flex flex-col gap-6 bg-slate-900 border border-white/5 rounded-3xl shadow-2xl p-8" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-500 hover:text-white transition-colors">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+        <h3 className="text-xl font-heading font-black uppercase tracking-widest text-indigo-400">Export PNG</h3>
+
+        <div>
+          <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Content</label>
+          <div className="grid grid-cols-3 gap-2">
+            {targets.map(({ value, label, disabled }) => (
+              <button key={value} onClick={() => setTarget(value)} disabled={disabled} className={optionClass(target === value)}>{label}</button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Resolution</label>
+          <div className="grid grid-cols-3 gap-2">
+            {EXPORT_SCALES.map((value) => (
+              <button key={value} onClick={() => setScale(value)} className={optionClass(scale === value)}>{value}×</button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Background</label>
+          <div className="grid grid-cols-3 gap-2">
+            {BACKGROUNDS.map(({ value, label }) => (
+              <button key={value} onClick={() => setBackground(value)} className={optionClass(background === value)}>{label}</button>
+            ))}
+          </div>
+        </div>
+
+        {error && <p className="text-xs font-bold text-red-400">{error}</p>}
+
+        <button
+          onClick={handleExport}
+          disabled={isRendering || targets.find(t => t.value === target)?.disabled}
+          className="w-full py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-30 disabled:pointer-events-none text-[10px] font-black uppercase tracking-widest text-white transition-colors"
+        >
+          {isRendering ? 'Rendering...' : 'Export'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,82 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { FalloffModel, evaluateFalloff } from '../types';
+
+interface FalloffCurveEditorProps {
+  falloff: FalloffModel;
+  customCurve: number[];
+  onChangeCurve: (curve: number[]) => void;
+}
+
+const WIDTH = 280;
+const HEIGHT = 110;
+const PADDING = 10;
+const SAMPLES = 48;
+
+const toX = (t: number) => PADDING + t * (WIDTH - PADDING * 2);
+const toY = (w: number) => HEIGHT - PADDING - w * (HEIGHT - PADDING * 2);
+
+/**
+ * Plots the active falloff curve. In custom mode the control points can be dragged vertically.
+ */
+const FalloffCurveEditor: React.FC<FalloffCurveEditorProps> = ({ falloff, customCurve, onChangeCurve }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const isCustom = falloff === 'custom';
+
+  useEffect(() => {
+    if (dragIndex === null) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      const rect = svgRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const y = (e.clientY - rect.top) * (HEIGHT / rect.height);
+      const weight = Math.max(0, Math.min(1, (HEIGHT - PADDING - y) / (HEIGHT - PADDING * 2)));
+      const next = [...customCurve];
+      next[dragIndex] = Math.round(weight * 100) / 100;
+      onChangeCurve(next);
+    };
+    const handleMouseUp = () => setDragIndex(null);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [dragIndex, customCurve, onChangeCurve]);
+
+  const path = Array.from({ length: SAMPLES + 1 }, (_, i) => {
+    const t = i / SAMPLES;
+    // t=1ちょうどは半径の外側扱いになるので、直前の値で描く
+    const w = evaluateFalloff(falloff, Math.min(t, 0.9999), customCurve);
+    return `${i === 0 ? 'M' : 'L'}${toX(t).toFixed(1)},${toY(w).toFixed(1)}`;
+  }).join(' ');
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto bg-slate-950/60 rounded-xl border border-white/5 select-none"
+    >
+      {[0.25, 0.5, 0.75].map(g => (
+        <line key={g} x1={toX(g)} x2={toX(g)} y1={PADDING} y2={HEIGHT - PADDING} stroke="rgba(255,255,255,0.05)" />
+      ))}
+      <line x1={PADDING} x2={WIDTH - PADDING} y1={toY(0)} y2={toY(0)} stroke="rgba(255,255,255,0.1)" />
+      <path d={`${path} L${toX(1)},${toY(0)} L${toX(0)},${toY(0)} Z`} fill="rgba(239, 68, 68, 0.12)" />
+      <path d={path} fill="none" stroke="rgb(248, 113, 113)" strokeWidth={2} />
+      {isCustom && customCurve.map((w, i) => (
+        <circle
+          key={i}
+          cx={toX(i / (customCurve.length - 1))}
+          cy={toY(w)}
+          r={dragIndex === i ? 6 : 5}
+          className="fill-white stroke-red-400 cursor-ns-resize"
+          strokeWidth={2}
+          onMouseDown={(e) => { e.stopPropagation(); e.preventDefault(); setDragIndex(i); }}
+        />
+      ))}
+      <text x={PADDING} y={HEIGHT - 1} className="fill-slate-500" fontSize={8}>target</text>
+      <text x={WIDTH - PADDING} y={HEIGHT - 1} textAnchor="end" className="fill-slate-500" fontSize={8}>radius</text>
+    </svg>
+  );
+};
+
+export default FalloffCurveEditor;
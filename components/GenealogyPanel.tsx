@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { LineageIndex, LineageNode, collectAncestors, collectDescendants } from '../services/lineage';
+import ReferenceThumbnail from './ReferenceThumbnail';
+
+interface GenealogyPanelProps {
+  rootId: string;
+  index: LineageIndex;
+  // 盤面上に残っているノードをクリックしたときに呼ばれる
+  onSelect: (id: string) => void;
+}
+
+const MAX_DEPTH = 6;
+
+const GenerationRow: React.FC<{ label: string; nodes: LineageNode[]; focusId: string; onFocus: (node: LineageNode) => void }> = ({ label, nodes, focusId, onFocus }) => (
+  <div className="flex items-start gap-2">
+    <span className="w-10 pt-2 text-[9px] font-black font-mono text-slate-500 flex-shrink-0">{label}</span>
+    <div className="flex flex-wrap gap-1">
+      {nodes.map((node) => (
+        <button
+          key={node.id}
+          onClick={() => onFocus(node)}
+          title={node.archived ? 'Archived snapshot (card was removed)' : 'Focus this card'}
+          className={`relative w-9 h-9 rounded border overflow-hidden transition-all bg-slate-950
+            ${node.id === focusId ? 'ring-2 ring-indigo-400 border-indigo-400' : node.archived ? 'border-dashed border-slate-600' : 'border-white/20 hover:border-indigo-400'}`}
+        >
+          {node.thumbnail || node.text !== undefined ? (
+            <ReferenceThumbnail thumbnail={node.thumbnail} text={node.text} className={node.archived ? 'grayscale opacity-60' : ''} alt="Lineage node" />
+          ) : (
+            <span className="text-[10px] font-black text-slate-600">?</span>
+          )}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const GenealogyPanel: React.FC<GenealogyPanelProps> = ({ rootId, index, onSelect }) => {
+  const [focusId, setFocusId] = useState(rootId);
+  const [depth, setDepth] = useState(3);
+
+  // 盤面で別のカードが選ばれたら、そこを起点にし直す
+  useEffect(() => {
+    setFocusId(rootId);
+  }, [rootId]);
+
+  const focus = index.get(focusId);
+  if (!focus) return null;
+
+  const ancestors = collectAncestors(index, focusId, depth);
+  const descendants = collectDescendants(index, focusId, depth);
+  if (ancestors.length === 0 && descendants.length === 0 && focusId === rootId) return null;
+
+  const handleFocus = (node: LineageNode) => {
+    setFocusId(node.id);
+    if (!node.archived) onSelect(node.id);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Genealogy</h4>
+        <div className="flex items-center gap-1 text-[9px] font-black font-mono text-slate-400">
+          <button onClick={() => setDepth(d => Math.max(1, d - 1))} className="w-5 h-5 rounded bg-slate-800 hover:bg-slate-700">−</button>
+          <span className="w-12 text-center">{depth} gen</span>
+          <button onClick={() => setDepth(d => Math.min(MAX_DEPTH, d + 1))} className="w-5 h-5 rounded bg-slate-800 hover:bg-slate-700">+</button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2 bg-slate-950/50 p-3 rounded-lg border border-white/5">
+        {[...ancestors].reverse().map((nodes, i) => (
+          <GenerationRow key={`a${i}`} label={`−${ancestors.length - i}`} nodes={nodes} focusId={focusId} onFocus={handleFocus} />
+        ))}
+        <GenerationRow label="0" nodes={[focus]} focusId={focusId} onFocus={handleFocus} />
+        {descendants.map((nodes, i) => (
+          <GenerationRow key={`d${i}`} label={`+${i + 1}`} nodes={nodes} focusId={focusId} onFocus={handleFocus} />
+        ))}
+      </div>
+
+      {focusId !== rootId && (
+        <button onClick={() => setFocusId(rootId)} className="text-[9px] font-bold uppercase tracking-widest text-indigo-400 hover:text-indigo-300">
+          Back to selection
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default GenealogyPanel;
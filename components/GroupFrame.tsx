@@ -0,0 +1,145 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { BoardGroup, ReferenceImage, Rect } from '../types';
+import ReferenceThumbnail from './ReferenceThumbnail';
+
+interface GroupFrameProps {
+  group: BoardGroup;
+  // メンバーの外接矩形（キャンバス座標）
+  bounds: Rect;
+  members: ReferenceImage[];
+  // 移動後のメンバー外接矩形の左上を渡す
+  onUpdatePosition: (id: string, x: number, y: number) => void;
+  onChange: (id: string, patch: Partial<BoardGroup>) => void;
+  onUngroup: (id: string) => void;
+  zoom: number;
+}
+
+const GROUP_PADDING = 24;
+const GROUP_HEADER_HEIGHT = 28;
+const COLLAPSED_WIDTH = 220;
+const MAX_PREVIEW = 5;
+
+const GroupFrame: React.FC<GroupFrameProps> = ({ group, bounds, members, onUpdatePosition, onChange, onUngroup, zoom }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+  const dragOffset = useRef({ x: 0, y: 0 });
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || e.altKey) return;
+    e.stopPropagation();
+    if ((e.target as HTMLElement).closest('button, input')) return;
+    setIsDragging(true);
+    dragOffset.current = {
+      x: e.clientX / zoom - bounds.x,
+      y: e.clientY / zoom - bounds.y
+    };
+  };
+
+  useEffect(() => {
+    if (!isDragging) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      onUpdatePosition(group.id, e.clientX / zoom - dragOffset.current.x, e.clientY / zoom - dragOffset.current.y);
+    };
+    const handleMouseUp = () => setIsDragging(false);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragging, group.id, zoom, onUpdatePosition]);
+
+  const commitName = () => {
+    if (nameDraft !== null && nameDraft.trim() && nameDraft.trim() !== group.name) {
+      onChange(group.id, { name: nameDraft.trim() });
+    }
+    setNameDraft(null);
+  };
+
+  const header = (
+    <div className="flex items-center gap-1 h-7 px-2">
+      {nameDraft !== null ? (
+        <input
+          autoFocus
+          value={nameDraft}
+          onChange={(e) => setNameDraft(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitName();
+            if (e.key === 'Escape') setNameDraft(null);
+          }}
+          className="flex-1 min-w-0 bg-slate-950 border border-teal-500/50 rounded px-1 text-[10px] font-black text-teal-200 outline-none"
+        />
+      ) : (
+        <span
+          onDoubleClick={() => setNameDraft(group.name)}
+          className="flex-1 min-w-0 truncate text-[10px] font-black uppercase tracking-widest text-teal-300"
+          title="Double-click to rename"
+        >
+          {group.name}
+        </span>
+      )}
+      <span className="text-[9px] font-mono text-teal-300/60">{members.length}</span>
+      <button
+        onClick={() => onChange(group.id, { combineInfluence: !group.combineInfluence })}
+        className={`px-1.5 py-0.5 rounded text-[8px] font-black uppercase transition-colors ${group.combineInfluence ? 'bg-teal-500 text-slate-950' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+        title="Score the group as one influence source from its bounds"
+      >
+        Unit
+      </button>
+      <button
+        onClick={() => onChange(group.id, { collapsed: !group.collapsed })}
+        className="px-1 text-teal-300/70 hover:text-white text-[10px]"
+        title={group.collapsed ? 'Expand' : 'Collapse (hidden members stop influencing syntheses)'}
+      >
+        {group.collapsed ? '▸' : '▾'}
+      </button>
+      <button onClick={() => onUngroup(group.id)} className="p-0.5 text-slate-500 hover:text-red-400 transition-colors" title="Ungroup">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+      </button>
+    </div>
+  );
+
+  if (group.collapsed) {
+    return (
+      <div
+        data-group-id={group.id}
+        className={`absolute group-frame select-none bg-slate-900/90 border border-teal-500/50 rounded-lg shadow-xl ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+        style={{ left: bounds.x, top: bounds.y, width: COLLAPSED_WIDTH }}
+        onMouseDown={handleMouseDown}
+      >
+        {header}
+        <div className="flex gap-1 px-2 pb-2 pointer-events-none">
+          {members.slice(0, MAX_PREVIEW).map((member) => (
+            <div key={member.id} className="w-8 h-8 rounded border border-white/10 overflow-hidden">
+              <ReferenceThumbnail thumbnail={member.base64} text={member.text} alt="Group member" />
+            </div>
+          ))}
+          {members.length > MAX_PREVIEW && (
+            <div className="w-8 h-8 rounded border border-white/10 flex items-center justify-center text-[9px] font-bold text-slate-400">+{members.length - MAX_PREVIEW}</div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      data-group-id={group.id}
+      className={`absolute group-frame select-none rounded-xl border-2 border-dashed transition-colors
+        ${group.combineInfluence ? 'border-teal-400/70 bg-teal-500/10' : 'border-teal-500/30 bg-teal-500/5'}
+        ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+      style={{
+        left: bounds.x - GROUP_PADDING,
+        top: bounds.y - GROUP_PADDING - GROUP_HEADER_HEIGHT,
+        width: bounds.width + GROUP_PADDING * 2,
+        height: bounds.height + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT
+      }}
+      onMouseDown={handleMouseDown}
+    >
+      {header}
+    </div>
+  );
+};
+
+export default GroupFrame;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { HistoryState } from '../services/history';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onJump: (position: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString(undefined, {
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit'
+});
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onUndo, onRedo, onClose }) => {
+  const position = history.past.length;
+  // 古い順に並べた操作の一覧。futureは新しいものほど先頭側に積まれているので逆順にする
+  const timeline = [...history.past, ...[...history.future].reverse()];
+
+  return (
+    <div className="fixed top-24 left-8 z-[150] w-72 bg-slate-900/95 backdrop-blur-xl border border-white/10 rounded-2xl shadow-2xl p-5 animate-in slide-in-from-left-4 duration-300 hud-element">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">History</h4>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={history.past.length === 0}
+            className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-30 text-[9px] font-black uppercase text-slate-300"
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={history.future.length === 0}
+            className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-30 text-[9px] font-black uppercase text-slate-300"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            Redo
+          </button>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-white transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1 max-h-[60vh] overflow-y-auto custom-scrollbar pr-1">
+        <button
+          onClick={() => onJump(0)}
+          className={`flex items-center justify-between px-3 py-2 rounded-lg text-left text-[11px] font-bold transition-colors ${position === 0 ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
+        >
+          Start
+        </button>
+        {timeline.map((entry, i) => {
+          const entryPosition = i + 1;
+          const isUndone = entryPosition > position;
+          return (
+            <button
+              key={entry.id}
+              onClick={() => onJump(entryPosition)}
+              className={`flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-left text-[11px] font-bold transition-colors
+                ${entryPosition === position ? 'bg-indigo-600 text-white' : isUndone ? 'text-slate-600 italic hover:bg-slate-800' : 'text-slate-300 hover:bg-slate-800'}`}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="text-[9px] font-mono opacity-60 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,15 +1,29 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ReferenceImage } from '../types';
+import { ReferenceImage, isTextNode } from '../types';
+import { SynthesisJob } from '../services/jobQueue';
+import { JOB_STEP_LABELS } from './JobsTray';
+import EditedImage from './EditedImage';
 
 interface ImageCardProps {
   item: ReferenceImage;
   isSelected: boolean;
   onUpdatePosition: (id: string, x: number, y: number) => void;
+  // ドラッグを始める直前に呼ぶ（選択全体を動かすときの基準位置を記録する）
+  onDragStart: (id: string) => void;
   onUpdateSize: (id: string, width: number, height: number) => void;
   onRemove: (id: string) => void;
   onSelect: (id: string, multi: boolean) => void;
   onBringToFront: (id: string) => void;
+  onUpdateText: (id: string, text: string) => void;
+  // 画像カードの切り抜き・回転の編集を開く
+  onEdit: (id: string) => void;
+  // ライブカードのカメラが止まっている（最後のフレームのまま）
+  livePaused?: boolean;
+  // プレースホルダーを埋めるジョブの状態
+  job?: SynthesisJob;
+  // 未選別のバリエーションであれば、グループ内の番号と総数
+  variant?: { index: number; total: number };
   zoom: number;
 }
 
@@ -17,23 +31,37 @@ const ImageCard: React.FC<ImageCardProps> = ({
   item, 
   isSelected, 
   onUpdatePosition, 
+  onDragStart,
   onUpdateSize, 
   onRemove, 
   onSelect, 
   onBringToFront, 
+  onUpdateText,
+  onEdit,
+  livePaused,
+  job,
+  variant,
   zoom 
 }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
   const dragOffset = useRef({ x: 0, y: 0 });
   const resizeStart = useRef({ x: 0, y: 0, w: 0, h: 0 });
+  const isText = isTextNode(item);
+  // 置いたばかりの空のテキストノードはそのまま入力できるようにする
+  const [isEditingText, setIsEditingText] = useState(isText && !item.text);
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if ((e.target as HTMLElement).closest('.resize-handle')) return;
+    if (isEditingText && (e.target as HTMLElement).closest('textarea')) {
+      e.stopPropagation();
+      return;
+    }
     
     e.stopPropagation();
     onSelect(item.id, e.shiftKey || e.ctrlKey || e.metaKey);
     onBringToFront(item.id);
+    onDragStart(item.id);
     
     setIsDragging(true);
     dragOffset.current = {
@@ -61,6 +89,12 @@ const ImageCard: React.FC<ImageCardProps> = ({
       } else if (isResizing) {
         const dx = (e.clientX - resizeStart.current.x) / zoom;
         const newWidth = Math.max(80, resizeStart.current.w + dx);
+        if (isText) {
+          // テキストノードは縦横を独立して変えられる
+          const dy = (e.clientY - resizeStart.current.y) / zoom;
+          onUpdateSize(item.id, newWidth, Math.max(48, resizeStart.current.h + dy));
+          return;
+        }
         const aspectRatio = resizeStart.current.h / resizeStart.current.w;
         onUpdateSize(item.id, newWidth, newWidth * aspectRatio);
       }
@@ -80,13 +114,16 @@ const ImageCard: React.FC<ImageCardProps> = ({
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDragging, isResizing, item.id, zoom, onUpdatePosition, onUpdateSize]);
+  }, [isDragging, isResizing, isText, item.id, zoom, onUpdatePosition, onUpdateSize]);
+
+  const influence = item.influence;
 
   return (
     <div 
       data-id={item.id}
       className={`absolute bg-slate-800/40 backdrop-blur-sm border rounded-lg overflow-hidden transition-all select-none image-card
-        ${isSelected ? 'ring-2 ring-indigo-500 border-indigo-500 shadow-[0_0_15px_rgba(99,102,241,0.4)]' : 'border-slate-700'} 
+        ${isSelected ? 'ring-2 ring-indigo-500 border-indigo-500 shadow-[0_0_15px_rgba(99,102,241,0.4)]' : influence?.negative ? 'border-red-500/70 border-dashed' : 'border-slate-700'} 
+        ${influence?.excluded ? 'opacity-40 grayscale' : ''} 
         ${isDragging ? 'z-50 opacity-90 cursor-grabbing' : 'cursor-grab'}`}
       style={{ 
         left: item.x, 
@@ -96,19 +133,90 @@ const ImageCard: React.FC<ImageCardProps> = ({
         transition: (isDragging || isResizing) ? 'none' : 'all 0.15s ease-out'
       }}
       onMouseDown={handleMouseDown}
+      onDoubleClick={() => {
+        if (isText) setIsEditingText(true);
+        else if (!item.isGenerating && !item.live) onEdit(item.id);
+      }}
     >
       {/* Image Content */}
       <div className="w-full h-full pointer-events-none bg-slate-900 flex items-center justify-center">
-        {item.isGenerating ? (
+        {item.isGenerating && job?.status === 'failed' ? (
+          <div className="flex flex-col items-center gap-2 px-4 text-center">
+            <span className="text-[10px] text-red-400 font-black uppercase tracking-widest">Failed</span>
+            <span className="text-[9px] text-red-300/70 line-clamp-3">{job.error}</span>
+          </div>
+        ) : item.isGenerating ? (
           <div className="flex flex-col items-center gap-2">
-            <div className="h-6 w-6 border-2 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin"></div>
-            <span className="text-[10px] text-indigo-400 font-bold uppercase tracking-widest">Generating...</span>
+            {job?.status === 'pending' ? (
+              <div className="h-6 w-6 border-2 border-dashed border-slate-600 rounded-full"></div>
+            ) : (
+              <div className="h-6 w-6 border-2 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin"></div>
+            )}
+            <span className="text-[10px] text-indigo-400 font-bold uppercase tracking-widest">
+              {job?.status === 'pending' ? 'Queued' : (job && JOB_STEP_LABELS[job.step]) || 'Generating...'}
+            </span>
+          </div>
+        ) : isText && isEditingText ? (
+          <textarea
+            autoFocus
+            value={item.text || ''}
+            onChange={(e) => onUpdateText(item.id, e.target.value)}
+            onBlur={() => setIsEditingText(false)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') (e.target as HTMLTextAreaElement).blur();
+            }}
+            placeholder="Type a concept..."
+            className="w-full h-full p-3 bg-amber-950/40 text-amber-100 text-sm font-bold text-center leading-snug outline-none resize-none pointer-events-auto custom-scrollbar"
+          />
+        ) : isText ? (
+          <div className="w-full h-full p-3 bg-amber-950/40 flex items-center justify-center text-center text-sm font-bold leading-snug text-amber-100 overflow-hidden break-words">
+            {item.text || <span className="text-amber-200/40 italic">Empty concept</span>}
           </div>
         ) : (
-          <img src={item.base64} alt="Ref" className="w-full h-full object-cover" />
+          <EditedImage src={item.base64} edit={item.edit} width={item.width} height={item.height} alt="Ref" />
         )}
       </div>
 
+      {/* Influence Override Badges */}
+      {!item.isGenerating && (item.mask || (influence && (influence.pinned || influence.excluded || influence.negative || influence.multiplier !== 1))) && (
+        <div className="absolute top-2 left-2 z-20 flex gap-1 pointer-events-none">
+          {item.mask && (
+            <span className="px-1.5 py-0.5 rounded bg-fuchsia-600/90 text-[9px] font-black uppercase text-white" title="Focus mask">ROI</span>
+          )}
+          {influence?.pinned && (
+            <span className="px-1.5 py-0.5 rounded bg-amber-500/90 text-[9px] font-black uppercase text-slate-950">Pin</span>
+          )}
+          {influence?.negative && (
+            <span className="px-1.5 py-0.5 rounded bg-red-600/90 text-[9px] font-black uppercase text-white">Neg</span>
+          )}
+          {influence?.excluded && (
+            <span className="px-1.5 py-0.5 rounded bg-slate-700/90 text-[9px] font-black uppercase text-slate-300">Muted</span>
+          )}
+          {influence && influence.multiplier !== 1 && (
+            <span className="px-1.5 py-0.5 rounded bg-indigo-600/90 text-[9px] font-black font-mono text-white">×{influence.multiplier.toFixed(1)}</span>
+          )}
+        </div>
+      )}
+
+      {/* Live Camera Badge */}
+      {item.live && !item.isGenerating && (
+        <div className="absolute bottom-2 left-2 z-20 pointer-events-none">
+          <span className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] font-black uppercase text-white ${livePaused ? 'bg-slate-700/90' : 'bg-red-600/90'}`}>
+            <span className={`w-1.5 h-1.5 rounded-full ${livePaused ? 'bg-slate-400' : 'bg-white animate-pulse'}`}></span>
+            {livePaused ? 'Live · Paused' : 'Live'}
+          </span>
+        </div>
+      )}
+
+      {/* Variant Badge */}
+      {variant && !item.isGenerating && (
+        <div className="absolute bottom-2 left-2 z-20 pointer-events-none">
+          <span className="px-1.5 py-0.5 rounded bg-sky-600/90 text-[9px] font-black font-mono uppercase text-white">
+            Var {variant.index + 1}/{variant.total}
+          </span>
+        </div>
+      )}
+
       {/* Resize Handle */}
       {isSelected && !item.isGenerating && (
         <div 
@@ -0,0 +1,156 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ImageEdit, IDENTITY_EDIT, Rect } from '../types';
+import { MIN_CROP, flipEdit, getEditedSize, isIdentityEdit, rotateEdit } from '../services/imageEdit';
+import EditedImage from './EditedImage';
+
+interface ImageEditorProps {
+  src: string;
+  edit?: ImageEdit;
+  // 編集なしに戻した場合は undefined を渡す
+  onApply: (edit: ImageEdit | undefined) => void;
+  onClose: () => void;
+}
+
+type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const STAGE_MAX = { width: 560, height: 380 };
+const PREVIEW_MAX = 180;
+const HANDLES: CropHandle[] = ['nw', 'ne', 'sw', 'se'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// 掴んだ場所に応じて切り抜き範囲を動かす（比率の座標系、0〜1に収める）
+const dragCrop = (start: Rect, handle: CropHandle, dx: number, dy: number): Rect => {
+  if (handle === 'move') {
+    return { ...start, x: clamp(start.x + dx, 0, 1 - start.width), y: clamp(start.y + dy, 0, 1 - start.height) };
+  }
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+  if (handle === 'nw' || handle === 'sw') left = clamp(left + dx, 0, right - MIN_CROP);
+  if (handle === 'ne' || handle === 'se') right = clamp(right + dx, left + MIN_CROP, 1);
+  if (handle === 'nw' || handle === 'ne') top = clamp(top + dy, 0, bottom - MIN_CROP);
+  if (handle === 'sw' || handle === 'se') bottom = clamp(bottom + dy, top + MIN_CROP, 1);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ src, edit, onApply, onClose }) => {
+  const [draft, setDraft] = useState<ImageEdit>(edit || IDENTITY_EDIT);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [drag, setDrag] = useState<{ handle: CropHandle; x: number; y: number; crop: Rect } | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setNatural({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = src;
+  }, [src]);
+
+  useEffect(() => {
+    if (!drag) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      const rect = stageRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const crop = dragCrop(drag.crop, drag.handle, (e.clientX - drag.x) / rect.width, (e.clientY - drag.y) / rect.height);
+      setDraft(prev => ({ ...prev, crop }));
+    };
+    const handleMouseUp = () => setDrag(null);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag]);
+
+  const startDrag = (handle: CropHandle) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setDrag({ handle, x: e.clientX, y: e.clientY, crop: draft.crop });
+  };
+
+  // 元画像を枠に収める大きさ
+  const stageScale = natural ? Math.min(STAGE_MAX.width / natural.width, STAGE_MAX.height / natural.height, 1) : 1;
+  const stage = natural ? { width: natural.width * stageScale, height: natural.height * stageScale } : STAGE_MAX;
+  const edited = natural ? getEditedSize(draft, natural.width, natural.height) : null;
+  const previewScale = edited ? PREVIEW_MAX / Math.max(edited.width, edited.height) : 1;
+  const { crop } = draft;
+
+  const toolButton = 'px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-300 transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-[260] flex items-center justify-center p-6 bg-slate-950/70 backdrop-blur-md animate-in fade-in duration-200 hud-element" onClick={onClose}>
+      <div className="relative w-full max-w-4xl flex flex-col bg-slate-900 border border-white/5 rounded-3xl shadow-2xl p-8" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-500 hover:text-white transition-colors">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+        <h3 className="text-xl font-heading font-black mb-6 uppercase tracking-widest text-indigo-400">Crop & Transform</h3>
+
+        <div className="flex gap-6 items-start">
+          <div className="flex-1 flex items-center justify-center bg-slate-950 rounded-2xl border border-white/5 p-4 min-h-[412px]">
+            <div ref={stageRef} className="relative select-none" style={{ width: stage.width, height: stage.height }}>
+              <img src={src} alt="Original" className="w-full h-full pointer-events-none" draggable={false} />
+              {/* 切り抜き範囲の外側を暗くする */}
+              <div
+                className="absolute border-2 border-indigo-400 cursor-move"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  boxShadow: '0 0 0 9999px rgba(2, 6, 23, 0.65)'
+                }}
+                onMouseDown={startDrag('move')}
+              >
+                {HANDLES.map((handle) => (
+                  <div
+                    key={handle}
+                    onMouseDown={startDrag(handle)}
+                    className={`absolute w-3 h-3 bg-indigo-500 border-2 border-white rounded-sm
+                      ${handle[0] === 'n' ? '-top-1.5' : '-bottom-1.5'} ${handle[1] === 'w' ? '-left-1.5' : '-right-1.5'}
+                      ${handle === 'nw' || handle === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                  ></div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="w-52 flex flex-col gap-4">
+            <div>
+              <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Result</label>
+              <div className="flex items-center justify-center bg-slate-950 rounded-xl border border-white/5" style={{ height: PREVIEW_MAX + 16 }}>
+                {edited && (
+                  <div className="rounded overflow-hidden" style={{ width: edited.width * previewScale, height: edited.height * previewScale }}>
+                    <EditedImage src={src} edit={draft} width={edited.width * previewScale} height={edited.height * previewScale} alt="Edited preview" />
+                  </div>
+                )}
+              </div>
+              {edited && (
+                <p className="mt-1 text-[9px] font-mono text-slate-500 text-center">{Math.round(edited.width)} × {Math.round(edited.height)}</p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={() => setDraft(prev => rotateEdit(prev, false))} className={toolButton} title="Rotate 90° counter-clockwise">↺ Rotate</button>
+              <button onClick={() => setDraft(prev => rotateEdit(prev, true))} className={toolButton} title="Rotate 90° clockwise">↻ Rotate</button>
+              <button onClick={() => setDraft(prev => flipEdit(prev, 'x'))} className={`${toolButton} ${draft.flipX ? 'bg-indigo-600 text-white hover:bg-indigo-500' : ''}`}>Flip H</button>
+              <button onClick={() => setDraft(prev => flipEdit(prev, 'y'))} className={`${toolButton} ${draft.flipY ? 'bg-indigo-600 text-white hover:bg-indigo-500' : ''}`}>Flip V</button>
+            </div>
+            <button onClick={() => setDraft(IDENTITY_EDIT)} disabled={isIdentityEdit(draft)} className={`${toolButton} disabled:opacity-30 disabled:pointer-events-none`}>Reset to Original</button>
+            <div className="flex gap-2 mt-2">
+              <button onClick={onClose} className={`${toolButton} flex-1`}>Cancel</button>
+              <button
+                onClick={() => onApply(isIdentityEdit(draft) ? undefined : draft)}
+                className="flex-1 px-3 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-[9px] font-black uppercase tracking-widest text-white transition-colors"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { InfluenceOverride } from '../types';
+
+interface InfluenceControlsProps {
+  influence: InfluenceOverride;
+  onChange: (patch: Partial<InfluenceOverride>) => void;
+}
+
+const TOGGLES: { key: 'pinned' | 'excluded' | 'negative'; label: string; hint: string; activeClass: string }[] = [
+  { key: 'pinned', label: 'Pin', hint: 'Always include regardless of distance', activeClass: 'bg-amber-500 border-amber-300 text-slate-950' },
+  { key: 'excluded', label: 'Mute', hint: 'Exclude from synthesis', activeClass: 'bg-slate-600 border-slate-400 text-white' },
+  { key: 'negative', label: 'Negative', hint: 'Steer the result away from this image', activeClass: 'bg-red-600 border-red-400 text-white' }
+];
+
+const InfluenceControls: React.FC<InfluenceControlsProps> = ({ influence, onChange }) => (
+  <div className="flex flex-col gap-4">
+    <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Influence Override</h4>
+    <div className="flex flex-col gap-3">
+      <div className="flex justify-between items-center text-[10px] font-black text-slate-500 uppercase tracking-widest">
+        <span>Weight Multiplier</span>
+        <span className="text-indigo-400 font-mono">×{influence.multiplier.toFixed(1)}</span>
+      </div>
+      <div className="relative h-2 flex items-center">
+        <div className="absolute left-0 right-0 h-0.5 bg-indigo-500/20 rounded-full"></div>
+        <input 
+          type="range" min="0" max="3" step="0.1" value={influence.multiplier}
+          onMouseDown={(e) => e.stopPropagation()}
+          onChange={(e) => onChange({ multiplier: parseFloat(e.target.value) })}
+          className="w-full h-2 bg-transparent appearance-none cursor-pointer accent-indigo-500 relative z-10"
+        />
+      </div>
+    </div>
+    <div className="grid grid-cols-3 gap-2">
+      {TOGGLES.map(({ key, label, hint, activeClass }) => (
+        <button 
+          key={key}
+          title={hint}
+          onClick={() => onChange({ [key]: !influence[key] })}
+          className={`py-2 text-[10px] font-bold rounded-lg border transition-all ${influence[key] ? activeClass : 'bg-slate-800 border-white/5 text-slate-400 hover:bg-slate-700'}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default InfluenceControls;
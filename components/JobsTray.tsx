@@ -0,0 +1,60 @@
+import React from 'react';
+import { LoadingStep } from '../types';
+import { SynthesisJob } from '../services/jobQueue';
+
+interface JobsTrayProps {
+  jobs: SynthesisJob[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+export const JOB_STEP_LABELS: Partial<Record<LoadingStep, string>> = {
+  [LoadingStep.ANALYZING]: 'Processing Concepts',
+  [LoadingStep.REVIEWING]: 'Awaiting Review',
+  [LoadingStep.GENERATING]: 'Synthesizing Artifact'
+};
+
+const JobsTray: React.FC<JobsTrayProps> = ({ jobs, onCancel, onRetry, onDismiss }) => {
+  if (jobs.length === 0) return null;
+  const running = jobs.filter(job => job.status === 'running').length;
+  const pending = jobs.filter(job => job.status === 'pending').length;
+
+  return (
+    <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-[110] w-80 bg-slate-900/95 backdrop-blur-2xl border border-indigo-500/30 rounded-2xl shadow-2xl p-3 hud-element">
+      <div className="flex justify-between items-center px-1 mb-2 text-[9px] font-black uppercase tracking-widest text-slate-500">
+        <span>Jobs</span>
+        <span className="font-mono">{running} running · {pending} queued</span>
+      </div>
+      <div className="flex flex-col gap-1 max-h-48 overflow-y-auto custom-scrollbar">
+        {jobs.map((job) => (
+          <div key={job.id} className={`flex items-center gap-2 px-2 py-1.5 rounded-lg ${job.status === 'failed' ? 'bg-red-900/30' : 'bg-slate-950/50'}`}>
+            {job.status === 'running' ? (
+              <div className="h-3 w-3 border-2 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin flex-shrink-0"></div>
+            ) : (
+              <div className={`h-2 w-2 rounded-full flex-shrink-0 ${job.status === 'failed' ? 'bg-red-500' : 'bg-slate-600'}`}></div>
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="text-[10px] font-bold text-slate-200 truncate">{job.label}</div>
+              <div className={`text-[9px] truncate ${job.status === 'failed' ? 'text-red-300' : 'text-indigo-400'}`} title={job.error}>
+                {job.status === 'failed' ? job.error : job.status === 'pending' ? 'Queued' : job.detail || JOB_STEP_LABELS[job.step] || 'Starting'}
+              </div>
+            </div>
+            {job.status === 'failed' ? (
+              <>
+                <button onClick={() => onRetry(job.id)} className="px-2 py-1 rounded bg-indigo-600 hover:bg-indigo-500 text-[9px] font-black uppercase text-white">Retry</button>
+                <button onClick={() => onDismiss(job.id)} className="p-1 text-slate-500 hover:text-white transition-colors" title="Dismiss">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              </>
+            ) : (
+              <button onClick={() => onCancel(job.id)} className="px-2 py-1 rounded bg-slate-800 hover:bg-red-600 text-[9px] font-black uppercase text-slate-300 hover:text-white transition-colors">Cancel</button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default JobsTray;
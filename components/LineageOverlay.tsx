@@ -0,0 +1,69 @@
+import React from 'react';
+import { ReferenceImage } from '../types';
+import { LineageIndex } from '../services/lineage';
+
+interface LineageOverlayProps {
+  images: ReferenceImage[];
+  index: LineageIndex;
+  // 選択中のカードにつながる辺を強調する
+  focusId: string | null;
+}
+
+const EDGE_COLORS = {
+  positive: 'rgb(129, 140, 248)',
+  negative: 'rgb(248, 113, 113)'
+};
+
+const LineageOverlay: React.FC<LineageOverlayProps> = ({ images, index, focusId }) => {
+  const byId = new Map(images.map(img => [img.id, img]));
+  const center = (img: ReferenceImage) => ({ x: img.x + img.width / 2, y: img.y + img.height / 2 });
+
+  const edges = images.flatMap((child) => {
+    const node = index.get(child.id);
+    if (!node) return [];
+    return node.parents
+      .map(link => ({ link, parent: byId.get(link.id) }))
+      .filter((edge): edge is { link: typeof edge.link; parent: ReferenceImage } => !!edge.parent)
+      .map(({ link, parent }) => ({ key: `${parent.id}->${child.id}`, from: center(parent), to: center(child), link, focused: focusId === child.id || focusId === parent.id }));
+  });
+
+  if (edges.length === 0) return null;
+
+  return (
+    <svg className="absolute left-0 top-0 pointer-events-none" width={1} height={1} style={{ overflow: 'visible' }}>
+      <defs>
+        {Object.entries(EDGE_COLORS).map(([kind, color]) => (
+          <marker key={kind} id={`lineage-arrow-${kind}`} viewBox="0 0 10 10" refX="5" refY="5" markerWidth="3" markerHeight="3" orient="auto">
+            <path d="M0,0 L10,5 L0,10 z" fill={color} />
+          </marker>
+        ))}
+      </defs>
+      {edges.map(({ key, from, to, link, focused }) => {
+        // 矢印がカードの下に隠れないよう、辺の中点に矢じりを置く
+        const midX = (from.x + to.x) / 2;
+        const midY = (from.y + to.y) / 2;
+        const kind = link.negative ? 'negative' : 'positive';
+        const color = EDGE_COLORS[kind];
+        const opacity = focusId ? (focused ? 0.9 : 0.12) : 0.25 + (link.contribution / 100) * 0.5;
+        return (
+          <g key={key} opacity={opacity}>
+            <polyline
+              points={`${from.x},${from.y} ${midX},${midY} ${to.x},${to.y}`}
+              fill="none"
+              stroke={color}
+              strokeWidth={2 + (link.contribution / 100) * 10}
+              strokeDasharray={link.negative ? '12 8' : undefined}
+              strokeLinecap="round"
+              markerMid={`url(#lineage-arrow-${kind})`}
+            />
+            <text x={midX} y={midY - 12} fill={color} fontSize={14} fontWeight={900} textAnchor="middle" fontFamily="monospace">
+              {link.contribution}%
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default LineageOverlay;
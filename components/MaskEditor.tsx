@@ -0,0 +1,142 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MASK_MAX_EDGE } from '../services/mask';
+
+interface MaskEditorProps {
+  // マスクを重ねる画像（切り抜き・回転を適用済みのもの）
+  src: string;
+  // 画像の縦横比（高さ / 幅）
+  aspect: number;
+  mask?: string;
+  // 何も塗られていなければ undefined を渡す
+  onApply: (mask: string | undefined) => void;
+  onClose: () => void;
+}
+
+const STAGE_MAX = { width: 560, height: 400 };
+const BRUSH_COLOR = 'rgb(217, 70, 239)';
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ src, aspect, mask, onApply, onClose }) => {
+  const [mode, setMode] = useState<'paint' | 'erase'>('paint');
+  const [brushSize, setBrushSize] = useState(32);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+  const canvasSize = aspect >= 1
+    ? { width: Math.round(MASK_MAX_EDGE / aspect), height: MASK_MAX_EDGE }
+    : { width: MASK_MAX_EDGE, height: Math.round(MASK_MAX_EDGE * aspect) };
+  const stageScale = Math.min(STAGE_MAX.width / canvasSize.width, STAGE_MAX.height / canvasSize.height);
+
+  // 既存のマスクを読み込む
+  useEffect(() => {
+    if (!mask) return;
+    const img = new Image();
+    img.onload = () => canvasRef.current?.getContext('2d')?.drawImage(img, 0, 0, canvasSize.width, canvasSize.height);
+    img.src = mask;
+  }, [mask, canvasSize.width, canvasSize.height]);
+
+  const toCanvasPoint = (e: React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvasSize.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvasSize.height
+    };
+  };
+
+  const paintTo = (point: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const from = lastPoint.current || point;
+    ctx.globalCompositeOperation = mode === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = BRUSH_COLOR;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+  };
+
+  useEffect(() => {
+    const handleMouseUp = () => { lastPoint.current = null; };
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, []);
+
+  const clear = () => {
+    canvasRef.current?.getContext('2d')?.clearRect(0, 0, canvasSize.width, canvasSize.height);
+  };
+
+  const apply = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let painted = false;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) {
+        painted = true;
+        break;
+      }
+    }
+    onApply(painted ? canvas.toDataURL('image/png') : undefined);
+  };
+
+  const toolButton = (active: boolean) => `px-3 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest transition-colors ${active ? 'bg-fuchsia-600 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'}`;
+
+  return (
+    <div className="fixed inset-0 z-[260] flex items-center justify-center p-6 bg-slate-950/70 backdrop-blur-md animate-in fade-in duration-200 hud-element" onClick={onClose}>
+      <div className="relative w-full max-w-3xl flex flex-col bg-slate-900 border border-white/5 rounded-3xl shadow-2xl p-8" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-500 hover:text-white transition-colors">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+        <h3 className="text-xl font-heading font-black mb-2 uppercase tracking-widest text-fuchsia-400">Focus Mask</h3>
+        <p className="text-[10px] text-slate-500 mb-6">Paint over the part of this reference that matters. Only the painted region is emphasized during synthesis.</p>
+
+        <div className="flex items-center justify-center bg-slate-950 rounded-2xl border border-white/5 p-4">
+          <div className="relative select-none" style={{ width: canvasSize.width * stageScale, height: canvasSize.height * stageScale }}>
+            <img src={src} alt="Reference" className="w-full h-full pointer-events-none" draggable={false} />
+            <canvas
+              ref={canvasRef}
+              width={canvasSize.width}
+              height={canvasSize.height}
+              className="absolute inset-0 w-full h-full opacity-60 cursor-crosshair"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                lastPoint.current = null;
+                paintTo(toCanvasPoint(e));
+              }}
+              onMouseMove={(e) => {
+                if (lastPoint.current) paintTo(toCanvasPoint(e));
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="mt-6 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <button onClick={() => setMode('paint')} className={toolButton(mode === 'paint')}>Paint</button>
+            <button onClick={() => setMode('erase')} className={toolButton(mode === 'erase')}>Erase</button>
+            <span className="ml-3 text-[9px] font-black uppercase tracking-widest text-slate-500">Brush</span>
+            <input
+              type="range"
+              min={8}
+              max={96}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="w-28 accent-fuchsia-500"
+            />
+            <button onClick={clear} className={`${toolButton(false)} ml-2`}>Clear</button>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className={toolButton(false)}>Cancel</button>
+            <button onClick={apply} className="px-4 py-2 rounded-lg bg-fuchsia-600 hover:bg-fuchsia-500 text-[9px] font-black uppercase tracking-widest text-white transition-colors">Save Mask</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { SynthesisSource } from '../types';
+import ReferenceThumbnail from './ReferenceThumbnail';
+
+interface PromptReviewPanelProps {
+  title: string;
+  prompt: string;
+  sources: SynthesisSource[];
+  isRegenerating: boolean;
+  // 解析をやり直せない場合（既存カードからの再生成など）は省略する
+  onRegenerate?: () => void;
+  onApprove: (prompt: string) => void;
+  onCancel: () => void;
+}
+
+const PromptReviewPanel: React.FC<PromptReviewPanelProps> = ({
+  title,
+  prompt,
+  sources,
+  isRegenerating,
+  onRegenerate,
+  onApprove,
+  onCancel
+}) => {
+  const [draft, setDraft] = useState(prompt);
+
+  // 再解析で新しいプロンプトが届いたら下書きを差し替える
+  useEffect(() => {
+    setDraft(prompt);
+  }, [prompt]);
+
+  const isEdited = draft.trim() !== prompt.trim();
+
+  return (
+    <div className="fixed inset-0 z-[260] flex items-center justify-center p-6 bg-slate-950/70 backdrop-blur-md animate-in fade-in duration-200 hud-element">
+      <div className="relative w-full max-w-3xl bg-slate-900 border border-white/5 rounded-3xl shadow-2xl p-8" onMouseDown={(e) => e.stopPropagation()}>
+        <h3 className="text-xl font-heading font-black mb-6 uppercase tracking-widest text-indigo-400">{title}</h3>
+
+        <div className="flex gap-6">
+          <div className="flex-1 flex flex-col gap-2">
+            <div className="flex justify-between items-center text-[10px] font-black uppercase tracking-widest text-slate-500">
+              <span>Synthesis Prompt</span>
+              {isEdited && <span className="text-amber-400">Edited</span>}
+            </div>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              disabled={isRegenerating}
+              rows={12}
+              className="w-full bg-slate-950 border border-white/10 focus:border-indigo-500/50 rounded-xl p-4 text-xs leading-relaxed text-slate-200 outline-none resize-none custom-scrollbar disabled:opacity-50"
+            />
+          </div>
+
+          <div className="w-48 flex flex-col gap-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Sources</span>
+            <div className="flex flex-col gap-2 max-h-72 overflow-y-auto custom-scrollbar pr-1">
+              {sources.map((source, idx) => (
+                <div key={idx} className="flex items-center gap-2 bg-slate-950/50 p-1.5 rounded-lg border border-white/5">
+                  <div className={`w-8 h-8 rounded border overflow-hidden flex-shrink-0 ${source.negative ? 'border-red-500/70' : 'border-white/10'}`}>
+                    <ReferenceThumbnail thumbnail={source.thumbnail} text={source.text} alt="Source" />
+                  </div>
+                  <span className={`text-[9px] font-black ${source.negative ? 'text-red-400' : 'text-indigo-400'}`}>
+                    {source.contribution}% {source.negative ? 'Avoid' : 'Influence'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 mt-8">
+          <button
+            onClick={onCancel}
+            className="px-5 py-3 text-xs font-bold text-slate-400 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <div className="flex gap-3">
+            {onRegenerate && (
+              <button
+                onClick={onRegenerate}
+                disabled={isRegenerating}
+                className="px-5 py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 border border-white/5 rounded-xl text-xs font-bold text-slate-300 transition-colors flex items-center gap-2"
+              >
+                {isRegenerating && <div className="h-3 w-3 border-2 border-white/20 border-t-white rounded-full animate-spin"></div>}
+                Re-analyze
+              </button>
+            )}
+            <button
+              onClick={() => onApprove(draft.trim())}
+              disabled={isRegenerating || !draft.trim()}
+              className="px-6 py-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-400 rounded-xl text-xs font-black uppercase tracking-widest text-white transition-colors"
+            >
+              {isEdited ? 'Generate with Edits' : 'Approve & Generate'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptReviewPanel;
@@ -0,0 +1,22 @@
+import React from 'react';
+
+interface ReferenceThumbnailProps {
+  thumbnail: string;
+  // テキストノードは画像の代わりに語句を縮小表示する
+  text?: string;
+  alt: string;
+  className?: string;
+}
+
+const ReferenceThumbnail: React.FC<ReferenceThumbnailProps> = ({ thumbnail, text, alt, className = '' }) => {
+  if (!thumbnail && text !== undefined) {
+    return (
+      <div className={`w-full h-full flex items-center justify-center p-0.5 bg-amber-950/60 text-[7px] leading-tight font-bold text-amber-200 text-center overflow-hidden break-words ${className}`} title={text}>
+        {text || 'Aa'}
+      </div>
+    );
+  }
+  return <img src={thumbnail} className={`w-full h-full object-cover ${className}`} alt={alt} />;
+};
+
+export default ReferenceThumbnail;
@@ -0,0 +1,58 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Rect } from '../types';
+
+interface SelectionBoxProps {
+  bounds: Rect;
+  count: number;
+  onResizeStart: () => void;
+  // 開始時の外接矩形に対する倍率（左上を基準に拡大縮小する）
+  onResize: (scale: number) => void;
+  zoom: number;
+}
+
+const MIN_SCALE = 0.1;
+
+const SelectionBox: React.FC<SelectionBoxProps> = ({ bounds, count, onResizeStart, onResize, zoom }) => {
+  const [isResizing, setIsResizing] = useState(false);
+  const resizeStart = useRef({ x: 0, y: 0, w: 0, h: 0 });
+
+  const handleResizeStart = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onResizeStart();
+    setIsResizing(true);
+    resizeStart.current = { x: e.clientX, y: e.clientY, w: bounds.width, h: bounds.height };
+  };
+
+  useEffect(() => {
+    if (!isResizing) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      const { x, y, w, h } = resizeStart.current;
+      // 対角方向の移動量の大きい方に合わせて縦横比を保つ
+      const scale = Math.max((w + (e.clientX - x) / zoom) / w, (h + (e.clientY - y) / zoom) / h);
+      onResize(Math.max(MIN_SCALE, scale));
+    };
+    const handleMouseUp = () => setIsResizing(false);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isResizing, zoom, onResize]);
+
+  return (
+    <div
+      className="absolute pointer-events-none border border-dashed border-indigo-400/70 rounded"
+      style={{ left: bounds.x - 8, top: bounds.y - 8, width: bounds.width + 16, height: bounds.height + 16 }}
+    >
+      <span className="absolute -top-5 left-0 text-[9px] font-black uppercase tracking-widest text-indigo-300 whitespace-nowrap">{count} selected</span>
+      <div
+        onMouseDown={handleResizeStart}
+        className="absolute -bottom-2 -right-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-sm cursor-nwse-resize pointer-events-auto"
+        title="Resize selection"
+      ></div>
+    </div>
+  );
+};
+
+export default SelectionBox;
@@ -0,0 +1,99 @@
+// Minimal stand-in for a local image backend, for trying the Local HTTP provider without a GPU.
+// Usage: node scripts/local-image-stub.mjs [port]
+// Serves POST /sdapi/v1/txt2img (SD WebUI style) and POST / (generic JSON style).
+import http from 'node:http';
+import zlib from 'node:zlib';
+
+const port = Number(process.argv[2] || process.env.PORT || 7860);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type, data) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+// Draws a gradient whose hue is derived from the prompt, so different prompts give visibly different cards.
+// Each image in a batch is shifted by its index, so variations are distinguishable too.
+const renderPng = (width, height, prompt, index = 0) => {
+  let hue = index * 47;
+  for (const ch of prompt) hue = (hue * 31 + ch.charCodeAt(0)) % 360;
+  const rows = [];
+  for (let y = 0; y < height; y++) {
+    const row = Buffer.alloc(1 + width * 3);
+    for (let x = 0; x < width; x++) {
+      const t = (x / width + y / height) / 2;
+      const h = ((hue + t * 120) % 360) / 60;
+      const c = 200 * (1 - t * 0.6);
+      const v = c * (1 - Math.abs((h % 2) - 1));
+      const [r, g, b] = h < 1 ? [c, v, 0] : h < 2 ? [v, c, 0] : h < 3 ? [0, c, v] : h < 4 ? [0, v, c] : h < 5 ? [v, 0, c] : [c, 0, v];
+      row.writeUInt8(Math.round(r + 30), 1 + x * 3);
+      row.writeUInt8(Math.round(g + 30), 2 + x * 3);
+      row.writeUInt8(Math.round(b + 30), 3 + x * 3);
+    }
+    rows.push(row);
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.writeUInt8(8, 8); // bit depth
+  header.writeUInt8(2, 9); // RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(Buffer.concat(rows))),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+};
+
+const send = (res, status, body, type = 'application/json') => {
+  res.writeHead(status, {
+    'Content-Type': type,
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+  });
+  res.end(body);
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, '');
+  if (req.method !== 'POST') return send(res, 405, JSON.stringify({ error: 'POST only' }));
+
+  let raw = '';
+  req.on('data', (data) => { raw += data; });
+  req.on('end', () => {
+    let payload;
+    try {
+      payload = JSON.parse(raw || '{}');
+    } catch {
+      return send(res, 400, JSON.stringify({ error: 'Invalid JSON' }));
+    }
+    const width = Math.min(1536, Math.max(64, Number(payload.width) || 512));
+    const height = Math.min(1536, Math.max(64, Number(payload.height) || 512));
+    const count = Math.min(8, Math.max(1, Number(payload.batch_size ?? payload.count) || 1));
+    const images = Array.from({ length: count }, (_, i) => renderPng(width, height, String(payload.prompt || ''), i).toString('base64'));
+    console.log(`${req.url} ${width}x${height} x${count} steps=${payload.steps} sampler=${payload.sampler_name || payload.sampler}`);
+
+    if (req.url === '/sdapi/v1/txt2img') {
+      return send(res, 200, JSON.stringify({ images, parameters: payload }));
+    }
+    return send(res, 200, JSON.stringify(count > 1 ? { images } : { image: images[0] }));
+  });
+});
+
+server.listen(port, () => console.log(`Local image stub listening on http://127.0.0.1:${port}`));
@@ -0,0 +1,346 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SavedBoard, BoardState, ReferenceImage } from '../types';
+import { storageService } from './storageService';
+import { blobToDataUrl, dataUrlToBlob, hashBlob, isDataUrl, mapImageFields } from './blobUtils';
+
+export const ARCHIVE_EXTENSION = '.resona';
+export const ARCHIVE_FORMAT = 'resonacanvas-board';
+export const ARCHIVE_SCHEMA_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const IMAGE_DIR = 'images/';
+const ARCHIVE_REF_PREFIX = 'archive:';
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  board: {
+    id: string;
+    name: string;
+    timestamp: number;
+  };
+  // 画像はdata URLの代わりに "archive:images/<hash>.<ext>" 形式でアーカイブ内のファイルを参照する
+  state: BoardState;
+  files: {
+    path: string;
+    mimeType: string;
+    size: number;
+  }[];
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+// --- Minimal ZIP container (stored entries on write, stored/deflate on read) ---
+
+interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const writeZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, entry.data.length, true);
+    central.setUint32(24, entry.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, entry.data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + entry.data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readZip = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  // 壊れた・途中で切れたファイルでは、ディレクトリ上のオフセットやサイズが範囲外を指す
+  const ensureRange = (offset: number, length: number, what: string) => {
+    if (offset < 0 || offset + length > buffer.byteLength) {
+      throw new ArchiveError(`Corrupt archive: ${what} is out of bounds. The file may be truncated.`);
+    }
+  };
+
+  let endOffset = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new ArchiveError("Not a valid archive: end of central directory not found.");
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let cursor = view.getUint32(endOffset + 16, true);
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    ensureRange(cursor, 46, "central directory entry");
+    if (view.getUint32(cursor, true) !== 0x02014b50) throw new ArchiveError("Corrupt archive: bad central directory entry.");
+    const method = view.getUint16(cursor + 10, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    ensureRange(cursor + 46, nameLength + extraLength + commentLength, "central directory entry");
+    const path = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    ensureRange(localOffset, 30, `local header of ${path}`);
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    ensureRange(dataStart, compressedSize, `data of ${path}`);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) files.set(path, raw);
+    else if (method === 8) {
+      try {
+        files.set(path, await inflateRaw(raw));
+      } catch {
+        throw new ArchiveError(`Corrupt archive: ${path} could not be decompressed.`);
+      }
+    }
+    else throw new ArchiveError(`Unsupported compression method ${method} for ${path}.`);
+  }
+  return files;
+};
+
+// --- Manifest validation ---
+
+const isFiniteNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+// 取り込み時にIDを書き換える配列（グループのメンバー、エミッターのバージョン）は形を確かめておく
+const validateOptionalList = (value: unknown, what: string, isValid: (item: Record<string, unknown>) => boolean) => {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) throw new ArchiveError(`Archive ${what} list is malformed.`);
+  value.forEach((item: unknown, i: number) => {
+    if (!isRecord(item) || typeof item.id !== 'string' || !isValid(item)) {
+      throw new ArchiveError(`Archive ${what} #${i + 1} is malformed.`);
+    }
+  });
+};
+
+const validateManifest = (value: unknown): ArchiveManifest => {
+  if (!isRecord(value)) throw new ArchiveError("Manifest is not a JSON object.");
+  if (value.format !== ARCHIVE_FORMAT) throw new ArchiveError("This file is not a ResonaCanvas board archive.");
+  const { schemaVersion, board, state } = value;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 1) {
+    throw new ArchiveError("Archive manifest has no valid schema version.");
+  }
+  if (schemaVersion > ARCHIVE_SCHEMA_VERSION) {
+    throw new ArchiveError(`Archive schema v${schemaVersion} is newer than supported (v${ARCHIVE_SCHEMA_VERSION}). Please update ResonaCanvas.`);
+  }
+  if (!isRecord(board) || typeof board.name !== 'string') throw new ArchiveError("Archive manifest is missing board info.");
+  if (!isRecord(state) || !Array.isArray(state.images) || !isRecord(state.settings)) {
+    throw new ArchiveError("Archive manifest is missing board state.");
+  }
+  state.images.forEach((img: unknown, i: number) => {
+    if (!isRecord(img) || typeof img.id !== 'string' || typeof img.base64 !== 'string'
+      || ![img.x, img.y, img.width, img.height].every(isFiniteNumber)
+      || ![img.payload, img.mask].every(isOptionalString)
+      || (img.synthesisData !== undefined && !(isRecord(img.synthesisData) && Array.isArray(img.synthesisData.sources)
+        && img.synthesisData.sources.every(source => isRecord(source) && typeof source.thumbnail === 'string')))) {
+      throw new ArchiveError(`Archive image #${i + 1} is malformed.`);
+    }
+  });
+  validateOptionalList(state.groups, 'group', group => isStringArray(group.memberIds));
+  validateOptionalList(state.emitters, 'emitter', emitter => isStringArray(emitter.versionIds));
+  return value as unknown as ArchiveManifest;
+};
+
+const slugify = (name: string) => name.trim().replace(/[^\w\-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'board';
+
+class ArchiveService {
+  /**
+   * Packs a saved board into a single .resona archive: manifest.json plus one file per unique image.
+   */
+  async exportBoard(board: SavedBoard): Promise<Blob> {
+    const entries: ZipEntry[] = [];
+    const files: ArchiveManifest['files'] = [];
+    const pathByDataUrl = new Map<string, string>();
+
+    const state = await mapImageFields(board.state, async (value) => {
+      if (!isDataUrl(value)) return value;
+      let path = pathByDataUrl.get(value);
+      if (!path) {
+        const blob = dataUrlToBlob(value);
+        const hash = await hashBlob(blob);
+        path = `${IMAGE_DIR}${hash}.${EXTENSION_BY_MIME[blob.type] || 'bin'}`;
+        pathByDataUrl.set(value, path);
+        if (!files.some(f => f.path === path)) {
+          entries.push({ path, data: new Uint8Array(await blob.arrayBuffer()) });
+          files.push({ path, mimeType: blob.type, size: blob.size });
+        }
+      }
+      return ARCHIVE_REF_PREFIX + path;
+    });
+
+    const manifest: ArchiveManifest = {
+      format: ARCHIVE_FORMAT,
+      schemaVersion: ARCHIVE_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      board: { id: board.id, name: board.name, timestamp: board.timestamp },
+      state,
+      files
+    };
+    entries.unshift({ path: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+    return writeZip(entries);
+  }
+
+  getArchiveFileName(board: SavedBoard): string {
+    return `${slugify(board.name)}${ARCHIVE_EXTENSION}`;
+  }
+
+  /**
+   * Reads a .resona archive and stores it as a new board in the library.
+   * The board ID is regenerated when it collides; card IDs are always regenerated.
+   */
+  async importBoard(file: Blob): Promise<SavedBoard> {
+    const archive = await readZip(await file.arrayBuffer());
+    const manifestData = archive.get(MANIFEST_PATH);
+    if (!manifestData) throw new ArchiveError("Archive has no manifest.json.");
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(new TextDecoder().decode(manifestData));
+    } catch {
+      throw new ArchiveError("Archive manifest is not valid JSON.");
+    }
+    const manifest = validateManifest(parsed);
+    const mimeByPath = new Map(manifest.files?.map(f => [f.path, f.mimeType]) || []);
+
+    const dataUrlByPath = new Map<string, string>();
+    const state = await mapImageFields(manifest.state, async (value) => {
+      if (!value.startsWith(ARCHIVE_REF_PREFIX)) return value;
+      const path = value.slice(ARCHIVE_REF_PREFIX.length);
+      const cached = dataUrlByPath.get(path);
+      if (cached) return cached;
+      const data = archive.get(path);
+      if (!data) throw new ArchiveError(`Archive is missing ${path}.`);
+      const dataUrl = await blobToDataUrl(new Blob([data], { type: mimeByPath.get(path) || 'application/octet-stream' }));
+      dataUrlByPath.set(path, dataUrl);
+      return dataUrl;
+    });
+
+    // カードIDは取り込むたびに振り直し、系譜・グループ・エミッターからの参照も同じ対応表で書き換える
+    // （IDが重複したカードには別々のIDを振り、参照は最初のカードに向ける）
+    const idMap = new Map<string, string>();
+    state.images = state.images.map((img: ReferenceImage) => {
+      const id = uuidv4();
+      if (!idMap.has(img.id)) idMap.set(img.id, id);
+      return { ...img, id };
+    });
+    const remapId = (id: string) => idMap.get(id) || id;
+    state.images = state.images.map((img: ReferenceImage) => img.synthesisData ? {
+      ...img,
+      synthesisData: {
+        ...img.synthesisData,
+        sources: img.synthesisData.sources.map(source => ({
+          ...source,
+          id: source.id && remapId(source.id),
+          parents: source.parents?.map(link => ({ ...link, id: remapId(link.id) }))
+        }))
+      }
+    } : img);
+    state.groups = state.groups?.map(group => ({ ...group, memberIds: group.memberIds.map(remapId) }));
+    state.emitters = state.emitters?.map(emitter => ({ ...emitter, versionIds: emitter.versionIds.map(remapId) }));
+
+    const conflict = manifest.board.id && await storageService.hasBoard(manifest.board.id);
+    const boardId = !manifest.board.id || conflict ? undefined : manifest.board.id;
+    const name = conflict ? `${manifest.board.name} (Imported)` : manifest.board.name;
+    return storageService.saveBoard(name, state, boardId);
+  }
+}
+
+export const archiveService = new ArchiveService();
@@ -0,0 +1,96 @@
+import { Rect, getBounds } from '../types';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export interface ArrangeItem extends Rect {
+  id: string;
+}
+
+// 各カードの移動先の左上座標
+export type ArrangeResult = Map<string, { x: number; y: number }>;
+
+const TIDY_GAP = 24;
+
+/**
+ * Aligns the items to one edge or the center line of their common bounds.
+ */
+export const alignItems = (items: ArrangeItem[], mode: AlignMode): ArrangeResult => {
+  const result: ArrangeResult = new Map();
+  const bounds = getBounds(items);
+  if (!bounds) return result;
+  items.forEach((item) => {
+    let { x, y } = item;
+    if (mode === 'left') x = bounds.x;
+    if (mode === 'center') x = bounds.x + (bounds.width - item.width) / 2;
+    if (mode === 'right') x = bounds.x + bounds.width - item.width;
+    if (mode === 'top') y = bounds.y;
+    if (mode === 'middle') y = bounds.y + (bounds.height - item.height) / 2;
+    if (mode === 'bottom') y = bounds.y + bounds.height - item.height;
+    result.set(item.id, { x, y });
+  });
+  return result;
+};
+
+/**
+ * Spaces the items evenly along an axis. The first and last items stay where they are,
+ * and the gaps between neighbouring cards become equal.
+ */
+export const distributeItems = (items: ArrangeItem[], axis: DistributeAxis): ArrangeResult => {
+  const result: ArrangeResult = new Map();
+  if (items.length < 3) return result;
+  const horizontal = axis === 'horizontal';
+  const start = (item: ArrangeItem) => horizontal ? item.x : item.y;
+  const length = (item: ArrangeItem) => horizontal ? item.width : item.height;
+
+  const sorted = [...items].sort((a, b) => start(a) - start(b));
+  const first = sorted[0];
+  const last = sorted.reduce((max, item) => start(item) + length(item) > start(max) + length(max) ? item : max, sorted[0]);
+  const span = start(last) + length(last) - start(first);
+  const gap = (span - sorted.reduce((sum, item) => sum + length(item), 0)) / (sorted.length - 1);
+
+  let cursor = start(first);
+  sorted.forEach((item) => {
+    result.set(item.id, horizontal ? { x: cursor, y: item.y } : { x: item.x, y: cursor });
+    cursor += length(item) + gap;
+  });
+  return result;
+};
+
+/**
+ * Lays the items out on a near-square grid from the top-left of their bounds, in reading order.
+ * Each column is as wide as its widest card and each row as tall as its tallest card.
+ */
+export const tidyGrid = (items: ArrangeItem[], gap = TIDY_GAP): ArrangeResult => {
+  const result: ArrangeResult = new Map();
+  const bounds = getBounds(items);
+  if (!bounds) return result;
+  // 現在の並びをなるべく崩さないよう、上から行ごと・左から順に並べる。
+  // 行の先頭のカードから高さの半分以上下にあるカードは次の行とみなす
+  const readingRows: ArrangeItem[][] = [];
+  [...items].sort((a, b) => a.y - b.y).forEach((item) => {
+    const row = readingRows[readingRows.length - 1];
+    if (row && item.y - row[0].y <= Math.min(row[0].height, item.height) / 2) row.push(item);
+    else readingRows.push([item]);
+  });
+  const sorted = readingRows.flatMap(row => row.sort((a, b) => a.x - b.x));
+  const cols = Math.ceil(Math.sqrt(sorted.length));
+  const rows = Math.ceil(sorted.length / cols);
+
+  const colWidths = Array.from({ length: cols }, (_, c) => Math.max(0, ...sorted.filter((_, i) => i % cols === c).map(item => item.width)));
+  const rowHeights = Array.from({ length: rows }, (_, r) => Math.max(0, ...sorted.slice(r * cols, (r + 1) * cols).map(item => item.height)));
+
+  sorted.forEach((item, i) => {
+    const col = i % cols;
+    const row = Math.floor(i / cols);
+    result.set(item.id, {
+      x: bounds.x + colWidths.slice(0, col).reduce((sum, w) => sum + w + gap, 0),
+      y: bounds.y + rowHeights.slice(0, row).reduce((sum, h) => sum + h + gap, 0)
+    });
+  });
+  return result;
+};
+
+// 矩形同士が重なっているか（マーキー選択の判定に使う）
+export const intersects = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
@@ -0,0 +1,130 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BlendPreset, ScoreBand } from '../types';
+
+export const DEFAULT_BLEND_PRESET_ID = 'singularity';
+
+const bands = (high: string, medium: string, low: string) => [
+  { id: 'high', label: 'High Score', min: 8, max: 10, rule: high },
+  { id: 'medium', label: 'Medium Score', min: 4, max: 7, rule: medium },
+  { id: 'low', label: 'Low Score', min: 1, max: 3, rule: low }
+];
+
+export const BUILT_IN_BLEND_PRESETS: BlendPreset[] = [
+  {
+    id: DEFAULT_BLEND_PRESET_ID,
+    name: 'Singularity Fusion',
+    instruction: `## CORE PRINCIPLE: PRINCIPLE OF SINGULARITY (単一性の原則)
+The resulting image MUST feature exactly ONE central subject (one person, one character, one primary object, or one landscape focus).
+- DO NOT place elements side-by-side (e.g., if you see a man and a woman, do not describe two people standing next to each other).
+- INSTEAD, blend features into a single, cohesive entity. Create a hybrid being or an object that incorporates traits from both.
+- The output should be a single, unified visual concept.`,
+    scoreBands: bands(
+      "Determines the main subject's core identity, dominant art style, and primary color palette.",
+      'Contributes textures, background atmosphere, lighting nuances, and secondary features.',
+      'Provides subtle accents, fine details, or background "flavor".'
+    ),
+    temperature: 0.9
+  },
+  {
+    id: 'scene',
+    name: 'Scene Composition',
+    instruction: `## CORE PRINCIPLE: ONE COHERENT SCENE
+Place the subjects of the references together in a single believable scene.
+- Each strong reference keeps its own identity; do not merge them into a hybrid.
+- Decide a clear spatial arrangement (foreground, midground, background) and how the subjects relate or interact.
+- Unify everything under one camera, one lighting setup and one art style so the scene reads as a single shot.`,
+    scoreBands: bands(
+      'Occupies the foreground focal point and sets the overall art style and palette.',
+      'Appears as a secondary subject or defines the setting and environment.',
+      'Appears as a background prop, set dressing, or atmospheric detail.'
+    ),
+    temperature: 0.8
+  },
+  {
+    id: 'style-transfer',
+    name: 'Style Transfer',
+    instruction: `## CORE PRINCIPLE: SUBJECT FROM ONE, STYLE FROM THE OTHERS
+Take the subject and composition from the highest-scoring reference, and render it in the visual style of the remaining references.
+- Keep the subject recognizable: pose, silhouette, and defining features stay intact.
+- Borrow medium, brushwork, line quality, palette, lighting, and texture from the style references.
+- Do not import subjects or objects from the style references.`,
+    scoreBands: bands(
+      'Provides the subject and composition. If several references are in this band, the highest one is the subject and the rest act as primary style.',
+      'Defines the dominant medium, palette, and rendering technique.',
+      'Adds secondary stylistic touches such as grain, edge treatment, or accent colors.'
+    ),
+    temperature: 0.7
+  },
+  {
+    id: 'moodboard',
+    name: 'Moodboard Collage',
+    instruction: `## CORE PRINCIPLE: CURATED MOODBOARD
+Describe a single image laid out as a designer's moodboard collage that presents every reference as its own visible element.
+- Arrange fragments, swatches, cut-outs, and cropped photos on one surface with intentional overlap and spacing.
+- Keep a shared color story and typography-free layout so the collage feels curated rather than random.
+- The collage as a whole communicates one mood.`,
+    scoreBands: bands(
+      'Gets the largest, most central tile and sets the color story.',
+      'Gets a medium tile or recurring swatch near the center.',
+      'Appears as small scraps, texture swatches, or edge details.'
+    ),
+    temperature: 1.0
+  }
+];
+
+const SHARED_SECTIONS = `## TEXT CONCEPTS
+Parts labeled "[Text Concept | Influence Score: N]" are words or phrases placed on the board instead of images.
+- Treat them exactly like a reference image with the same score: apply the blending rules above to the concept they describe.
+- Parts labeled "[NEGATIVE Text Concept | Avoidance Score: N]" name something to steer away from.
+
+## NEGATIVE REFERENCES
+Images labeled "[NEGATIVE Reference | Avoidance Score: N]" show what the result must NOT look like.
+- Steer away from their subject, style, palette and mood. A higher score means stronger avoidance.
+- Never describe them as part of the subject; only use them to decide what to exclude or contrast against.
+
+## REGIONS OF INTEREST
+A reference image may be followed by a part labeled "[Region of Interest]" showing the same image with everything outside the marked region dimmed.
+- Draw that reference's contribution from the highlighted region only (e.g. an outfit, a texture, one object), and ignore its dimmed surroundings.
+- The score of the reference applies to the highlighted region.
+
+## OUTPUT FORMAT
+- Provide ONLY the detailed visual prompt in English.
+- Describe style, lighting, composition, and physical textures.
+- No meta-commentary.`;
+
+// 範囲の逆転したバンドは指示に含めない。問題があればエディタに表示する理由を返す
+export const validateScoreBand = (band: ScoreBand): string | null => {
+  if (!Number.isFinite(band.min) || !Number.isFinite(band.max)) return "Range is incomplete.";
+  if (band.min > band.max) return "Min exceeds max.";
+  return null;
+};
+
+// IDの無いバンド（ID導入前に保存されたボード）にIDを振る
+export const ensureBandIds = (presets: BlendPreset[]): BlendPreset[] => presets.map(preset =>
+  preset.scoreBands.every(band => band.id)
+    ? preset
+    : { ...preset, scoreBands: preset.scoreBands.map(band => band.id ? band : { ...band, id: uuidv4() }) });
+
+/**
+ * Assembles the system instruction for the analysis step from a preset.
+ * The negative reference and output format rules are shared by every preset.
+ */
+export const buildSystemInstruction = (preset: BlendPreset): string => {
+  const rules = preset.scoreBands
+    .filter(band => !validateScoreBand(band))
+    .sort((a, b) => b.max - a.max)
+    .map((band, i) => `${i + 1}. ${band.label} (${band.min}-${band.max}): ${band.rule}`)
+    .join('\n');
+
+  return [
+    `You are a world-class senior creative director and visual synth engineer.
+Your task: Analyze multiple "Reference Images" and their "Influence Scores" to create a single, highly detailed prompt for an image generation AI.`,
+    preset.instruction.trim(),
+    rules ? `## BLENDING RULES\n${rules}` : '',
+    SHARED_SECTIONS
+  ].filter(Boolean).join('\n\n');
+};
+
+// 指定IDのプリセットが無ければ一覧の先頭、一覧も空なら既定のプリセットを使う
+export const resolveBlendPreset = (presets: BlendPreset[], id: string): BlendPreset =>
+  presets.find(preset => preset.id === id) || presets[0] || BUILT_IN_BLEND_PRESETS[0];
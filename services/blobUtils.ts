@@ -0,0 +1,67 @@
+import { BoardState, ReferenceImage } from '../types';
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data = ''] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  if (header.includes(';base64')) {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+  }
+  return new Blob([decodeURIComponent(data)], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// crypto.subtleはセキュアコンテキストでのみ利用可能なため、非対応環境では簡易ハッシュにフォールバックする
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const buffer = await blob.arrayBuffer();
+  if (crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+  const bytes = new Uint8Array(buffer);
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i < bytes.length; i++) {
+    h1 = Math.imul(h1 ^ bytes[i], 2654435761);
+    h2 = Math.imul(h2 ^ bytes[i], 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `fb-${(h2 >>> 0).toString(16)}${(h1 >>> 0).toString(16)}-${bytes.length.toString(16)}`;
+};
+
+export const isDataUrl = (value: string) => /^data:[\w.+-]+\/[\w.+-]+;base64,/.test(value);
+
+// 画像を持つフィールド（元画像・送信用画像・マスク・系譜のサムネイル）だけに変換を適用する。
+// テキストノードの語句やボード名などは、たまたま参照の形をしていても書き換えない
+export const mapImageFields = async (state: BoardState, fn: (value: string) => Promise<string>): Promise<BoardState> => {
+  const mapOptional = async (value?: string) => value === undefined ? undefined : fn(value);
+  const images = await Promise.all(state.images.map(async (img): Promise<ReferenceImage> => ({
+    ...img,
+    base64: await fn(img.base64),
+    payload: await mapOptional(img.payload),
+    mask: await mapOptional(img.mask),
+    synthesisData: img.synthesisData && {
+      ...img.synthesisData,
+      sources: await Promise.all(img.synthesisData.sources.map(async source => ({
+        ...source,
+        thumbnail: await fn(source.thumbnail)
+      })))
+    }
+  })));
+  return { ...state, images };
+};
+
+export const listImageFields = (state: BoardState): string[] => state.images.flatMap(img => [
+  img.base64,
+  ...(img.payload !== undefined ? [img.payload] : []),
+  ...(img.mask !== undefined ? [img.mask] : []),
+  ...(img.synthesisData?.sources.map(source => source.thumbnail) || [])
+]);
@@ -0,0 +1,94 @@
+// 撮影したフレームの書き出し形式
+const FRAME_TYPE = 'image/jpeg';
+const FRAME_QUALITY = 0.9;
+
+/**
+ * An open camera. `capture` is synchronous so a synthesis can grab the current frame
+ * without waiting; it returns null until the first frame has arrived.
+ * When `maxEdge` is given, the frame is scaled down so its long side fits.
+ */
+export interface CameraSession {
+  // プレビュー表示用のストリーム（スタブでは null でよい）
+  readonly stream: MediaStream | null;
+  capture(maxEdge?: number): string | null;
+  close(): void;
+}
+
+export interface CameraSource {
+  open(): Promise<CameraSession>;
+}
+
+// getUserMediaの失敗を、利用者に見せられる文言に置き換える
+const describeCameraError = (error: unknown): Error => {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return new Error("Camera access was denied. Allow the camera for this page and try again.");
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return new Error("No camera was found on this device.");
+  }
+  if (name === 'NotReadableError') {
+    return new Error("The camera is in use by another application.");
+  }
+  return new Error(error instanceof Error ? error.message : "Could not open the camera.");
+};
+
+class BrowserCameraSession implements CameraSession {
+  private canvas = document.createElement('canvas');
+
+  constructor(readonly stream: MediaStream, private video: HTMLVideoElement) {}
+
+  capture(maxEdge?: number): string | null {
+    const { videoWidth, videoHeight } = this.video;
+    if (!videoWidth || !videoHeight) return null;
+    const scale = maxEdge ? Math.min(1, maxEdge / Math.max(videoWidth, videoHeight)) : 1;
+    this.canvas.width = Math.round(videoWidth * scale);
+    this.canvas.height = Math.round(videoHeight * scale);
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(this.video, 0, 0, this.canvas.width, this.canvas.height);
+    return this.canvas.toDataURL(FRAME_TYPE, FRAME_QUALITY);
+  }
+
+  close() {
+    this.stream.getTracks().forEach(track => track.stop());
+    this.video.srcObject = null;
+  }
+}
+
+/**
+ * Opens the device camera with getUserMedia. Frames are read from an off-screen video element.
+ */
+export class BrowserCameraSource implements CameraSource {
+  async open(): Promise<CameraSession> {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error("Camera capture is not available in this browser.");
+    }
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } }, audio: false });
+    } catch (e) {
+      throw describeCameraError(e);
+    }
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    try {
+      await video.play();
+    } catch (e) {
+      stream.getTracks().forEach(track => track.stop());
+      throw describeCameraError(e);
+    }
+    return new BrowserCameraSession(stream, video);
+  }
+}
+
+let cameraSource: CameraSource = new BrowserCameraSource();
+
+export const getCameraSource = (): CameraSource => cameraSource;
+
+// テストなどで実機のカメラを差し替える
+export const setCameraSource = (source: CameraSource) => {
+  cameraSource = source;
+};
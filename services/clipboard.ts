@@ -0,0 +1,69 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ReferenceImage, Rect, getBounds } from '../types';
+
+// 貼り付け・複製のたびにずらす距離
+export const PASTE_OFFSET = 24;
+
+// システムのクリップボードに書き込む目印。貼り付け時に自分のコピーかどうかを見分ける
+const MARKER_PREFIX = 'resona-cards:';
+
+/**
+ * Clones cards with fresh IDs, moved by the given offset.
+ * Links to the emitter, job and variant set of the original stay behind; synthesis metadata is kept.
+ */
+export const cloneCards = (cards: ReferenceImage[], dx: number, dy: number): ReferenceImage[] =>
+  cards.map(({ file, jobId, emitterId, variantGroupId, variantIndex, isGenerating, score, ...card }) => ({
+    ...card,
+    id: uuidv4(),
+    x: card.x + dx,
+    y: card.y + dy
+  }));
+
+/**
+ * Holds copied cards in memory so they can be pasted into any board opened in this session.
+ */
+class CardClipboard {
+  private cards: ReferenceImage[] = [];
+  private marker: string | null = null;
+  // 同じコピーを続けて貼り付けた回数（重ならないよう段々にずらす）
+  private pasteCount = 0;
+
+  /**
+   * Stores the cards and returns the text to put on the system clipboard.
+   */
+  copy(cards: ReferenceImage[]): string {
+    this.cards = cloneCards(cards.filter(card => !card.isGenerating), 0, 0);
+    this.marker = `${MARKER_PREFIX}${uuidv4()}`;
+    this.pasteCount = 0;
+    return this.marker;
+  }
+
+  hasCards(): boolean {
+    return this.cards.length > 0;
+  }
+
+  // 貼り付けられたテキストが最後のコピーの目印か（その後に別のものがコピーされていないか）
+  isCurrent(text: string): boolean {
+    return this.marker !== null && text === this.marker;
+  }
+
+  getBounds(): Rect | null {
+    return getBounds(this.cards);
+  }
+
+  /**
+   * Returns new cards for one paste. Each paste of the same copy lands a step further from the original;
+   * when `anchor` is given, the copy is centered there instead.
+   */
+  paste(anchor?: { x: number; y: number }): ReferenceImage[] {
+    const bounds = getBounds(this.cards);
+    if (!bounds) return [];
+    this.pasteCount += 1;
+    const offset = PASTE_OFFSET * this.pasteCount;
+    const dx = anchor ? anchor.x - (bounds.x + bounds.width / 2) + offset - PASTE_OFFSET : offset;
+    const dy = anchor ? anchor.y - (bounds.y + bounds.height / 2) + offset - PASTE_OFFSET : offset;
+    return cloneCards(this.cards, dx, dy);
+  }
+}
+
+export const cardClipboard = new CardClipboard();
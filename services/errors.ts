@@ -0,0 +1,139 @@
+import { isAbortError } from './jobQueue';
+
+export type SynthesisErrorKind = 'auth' | 'rate-limit' | 'safety' | 'unsupported-model' | 'network' | 'unknown';
+
+/**
+ * Base class for provider failures. `retryable` errors are worth repeating with backoff,
+ * `fallbackable` errors are worth repeating with the next model in the fallback chain.
+ */
+export class SynthesisError extends Error {
+  readonly retryable: boolean = false;
+  readonly fallbackable: boolean = false;
+
+  constructor(readonly kind: SynthesisErrorKind, message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'SynthesisError';
+  }
+}
+
+export class AuthError extends SynthesisError {
+  constructor(message = "API key was rejected. Please re-select a valid paid project key.", cause?: unknown) {
+    super('auth', message, cause);
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends SynthesisError {
+  readonly retryable = true;
+  readonly fallbackable = true;
+
+  // サーバーが待ち時間を指定してきた場合はバックオフより優先する
+  constructor(message = "Rate limit or quota exceeded.", readonly retryAfterMs?: number, cause?: unknown) {
+    super('rate-limit', message, cause);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class SafetyBlockError extends SynthesisError {
+  constructor(message = "The request was blocked by safety filters. Adjust the references or prompt.", cause?: unknown) {
+    super('safety', message, cause);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class UnsupportedModelError extends SynthesisError {
+  readonly fallbackable = true;
+
+  constructor(readonly model: string, message = `Model "${model}" is not available for this request.`, cause?: unknown) {
+    super('unsupported-model', message, cause);
+    this.name = 'UnsupportedModelError';
+  }
+}
+
+export class NetworkError extends SynthesisError {
+  readonly retryable = true;
+
+  constructor(message = "Network request failed.", cause?: unknown) {
+    super('network', message, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+const parseRetryAfter = (message: string): number | undefined => {
+  const match = message.match(/retry (?:in|after) (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Maps an error thrown by a provider SDK or fetch into one of the typed errors above.
+ * Abort errors and already classified errors are returned unchanged.
+ */
+export const classifyError = (error: unknown, model?: string): unknown => {
+  if (error instanceof SynthesisError || isAbortError(error)) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  // SDKやfetchのエラーはHTTPステータスをstatusに持つことがある
+  const status = error && typeof error === 'object' && 'status' in error && typeof error.status === 'number' ? error.status : undefined;
+
+  if (status === 401 || status === 403 || /API[_ ]KEY|Requested entity was not found|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AuthError(undefined, error);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new RateLimitError(undefined, parseRetryAfter(message), error);
+  }
+  // "blocked" だけでは判定しない（ネットワークやCORSのブロックと区別できないため）
+  if (/\bsafety\b|IMAGE_SAFETY|PROHIBITED_CONTENT|BLOCKLIST|raiFiltered/i.test(message)) {
+    return new SafetyBlockError(undefined, error);
+  }
+  if (status === 404 || /not supported|not found for API version|is not found/i.test(message)) {
+    return new UnsupportedModelError(model || 'unknown', undefined, error);
+  }
+  if (status === 500 || status === 502 || status === 503 || status === 504 || error instanceof TypeError || /Failed to fetch|NetworkError|UNAVAILABLE|ECONNRESET|timed? ?out/i.test(message)) {
+    return new NetworkError(message, error);
+  }
+  return new SynthesisError('unknown', message, error);
+};
+
+// catchで受け取った値から利用者に見せるメッセージを取り出す
+export const errorMessage = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 16000;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('The operation was aborted.', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  if (signal?.aborted) abort();
+  else signal?.addEventListener('abort', abort, { once: true });
+});
+
+/**
+ * Runs `task`, repeating it with exponential backoff (plus jitter) while it fails with a retryable error.
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  options: { signal?: AbortSignal; model?: string; onRetry?: (attempt: number, delayMs: number, error: SynthesisError) => void } = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (raw) {
+      const error = classifyError(raw, options.model);
+      if (!(error instanceof SynthesisError) || !error.retryable || attempt >= RETRY_ATTEMPTS || options.signal?.aborted) {
+        throw error;
+      }
+      const backoff = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempt - 1));
+      const delayMs = error instanceof RateLimitError && error.retryAfterMs ? error.retryAfterMs : backoff + Math.random() * backoff * 0.25;
+      options.onRetry?.(attempt, delayMs, error);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
@@ -0,0 +1,283 @@
+import { ReferenceImage, IDENTITY_EDIT, getBounds, isTextNode } from '../types';
+import { dataUrlToBlob } from './blobUtils';
+import { drawEditedImage } from './imageEdit';
+
+export type ExportBackground = 'dark' | 'light' | 'transparent';
+
+export interface ExportOptions {
+  // 盤面上の1pxを何pxで書き出すか
+  scale: number;
+  background: ExportBackground;
+}
+
+export const EXPORT_SCALES = [1, 2, 3];
+
+// 背景ごとの配色（透過は文字色などを暗い背景と同じにする）
+const PALETTES: Record<ExportBackground, { background: string | null; ink: string; muted: string; line: string; panel: string }> = {
+  dark: { background: '#020617', ink: '#f1f5f9', muted: '#64748b', line: '#334155', panel: '#0f172a' },
+  light: { background: '#f8fafc', ink: '#0f172a', muted: '#64748b', line: '#cbd5e1', panel: '#e2e8f0' },
+  transparent: { background: null, ink: '#f1f5f9', muted: '#94a3b8', line: '#334155', panel: '#0f172a' }
+};
+
+const ACCENT = '#818cf8';
+const NEGATIVE = '#ef4444';
+const CONCEPT_FILL = '#451a03';
+const CONCEPT_INK = '#fef3c7';
+const BODY_FONT = 'Inter, system-ui, sans-serif';
+const HEADING_FONT = 'Outfit, Inter, system-ui, sans-serif';
+
+// ブラウザのcanvasが確実に扱える大きさに収める
+const MAX_CANVAS_EDGE = 8192;
+const BOARD_PADDING = 48;
+const CARD_RADIUS = 8;
+
+const SHEET = {
+  width: 1200,
+  margin: 48,
+  gap: 40,
+  imageWidth: 520,
+  imageMaxHeight: 720,
+  rowHeight: 72,
+  thumbSize: 56,
+  promptLineHeight: 24
+};
+
+const loadBitmap = (dataUrl: string) => createImageBitmap(dataUrlToBlob(dataUrl), { imageOrientation: 'from-image' });
+
+/**
+ * Creates a canvas for a layout of the given size in board pixels, filled with the background.
+ * The scale is lowered if the result would exceed what browsers can allocate.
+ */
+const createCanvas = (width: number, height: number, options: ExportOptions) => {
+  const scale = Math.min(options.scale, MAX_CANVAS_EDGE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create an image to export.");
+  const palette = PALETTES[options.background];
+  if (palette.background) {
+    ctx.fillStyle = palette.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.scale(scale, scale);
+  ctx.imageSmoothingQuality = 'high';
+  return { canvas, ctx, palette };
+};
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+  const r = Math.min(radius, width / 2, height / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + width, y, x + width, y + height, r);
+  ctx.arcTo(x + width, y + height, x, y + height, r);
+  ctx.arcTo(x, y + height, x, y, r);
+  ctx.arcTo(x, y, x + width, y, r);
+  ctx.closePath();
+};
+
+/**
+ * Breaks text into lines that fit `maxWidth` with the context's current font.
+ * Words longer than a line (or text without spaces) are broken between characters.
+ */
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach((paragraph) => {
+    let line = '';
+    paragraph.split(/(\s+)/).forEach((word) => {
+      const candidate = line + word;
+      if (ctx.measureText(candidate).width <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = '';
+      for (const char of word.trimStart()) {
+        if (ctx.measureText(line + char).width > maxWidth && line) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    });
+    lines.push(line.trimEnd());
+  });
+  return lines;
+};
+
+// 画像を枠いっぱいに、はみ出た分を切り落として描く
+const drawCover = (ctx: CanvasRenderingContext2D, bitmap: ImageBitmap, x: number, y: number, width: number, height: number) => {
+  const scale = Math.max(width / bitmap.width, height / bitmap.height);
+  const sw = width / scale;
+  const sh = height / scale;
+  ctx.drawImage(bitmap, (bitmap.width - sw) / 2, (bitmap.height - sh) / 2, sw, sh, x, y, width, height);
+};
+
+const drawConcept = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, width: number, height: number, fontSize: number) => {
+  ctx.fillStyle = CONCEPT_FILL;
+  ctx.fillRect(x, y, width, height);
+  ctx.fillStyle = CONCEPT_INK;
+  ctx.font = `700 ${fontSize}px ${BODY_FONT}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const padding = Math.max(4, fontSize * 0.8);
+  const lineHeight = fontSize * 1.3;
+  const lines = wrapText(ctx, text || 'Aa', width - padding * 2).slice(0, Math.max(1, Math.floor((height - padding * 2) / lineHeight)));
+  lines.forEach((line, i) => {
+    ctx.fillText(line, x + width / 2, y + height / 2 + (i - (lines.length - 1) / 2) * lineHeight);
+  });
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+};
+
+const drawCard = async (ctx: CanvasRenderingContext2D, card: ReferenceImage, line: string) => {
+  ctx.save();
+  roundedRect(ctx, card.x, card.y, card.width, card.height, CARD_RADIUS);
+  ctx.clip();
+  if (isTextNode(card)) {
+    drawConcept(ctx, card.text?.trim() || '', card.x, card.y, card.width, card.height, 14);
+  } else {
+    const bitmap = await loadBitmap(card.base64);
+    try {
+      drawEditedImage(ctx, bitmap, card.edit || IDENTITY_EDIT, card.x, card.y, card.width, card.height);
+    } finally {
+      bitmap.close();
+    }
+  }
+  ctx.restore();
+  roundedRect(ctx, card.x, card.y, card.width, card.height, CARD_RADIUS);
+  ctx.strokeStyle = line;
+  ctx.lineWidth = 1;
+  ctx.stroke();
+};
+
+/**
+ * Renders cards at their board positions as a PNG. Cards are painted in array order,
+ * so later cards cover earlier ones the same way they do on the board.
+ */
+export const renderCardsImage = async (cards: ReferenceImage[], options: ExportOptions): Promise<string> => {
+  const drawable = cards.filter(card => !card.isGenerating && (card.base64 || isTextNode(card)));
+  const bounds = getBounds(drawable);
+  if (!bounds) throw new Error("There is nothing to export.");
+  const { canvas, ctx, palette } = createCanvas(bounds.width + BOARD_PADDING * 2, bounds.height + BOARD_PADDING * 2, options);
+  ctx.translate(BOARD_PADDING - bounds.x, BOARD_PADDING - bounds.y);
+  for (const card of drawable) {
+    await drawCard(ctx, card, palette.line);
+  }
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Renders a synthesized card as a recipe sheet: the image, each contributing source with its share,
+ * the model and blend preset, and the prompt that produced it.
+ */
+export const renderRecipeSheet = async (card: ReferenceImage, options: ExportOptions): Promise<string> => {
+  const data = card.synthesisData;
+  if (!data) throw new Error("Only synthesized cards have a recipe.");
+  const { width, margin, gap, rowHeight, thumbSize, promptLineHeight } = SHEET;
+
+  // 画像は左列の幅に合わせ、縦長すぎる場合は高さで抑える
+  const imageScale = Math.min(SHEET.imageWidth / card.width, SHEET.imageMaxHeight / card.height);
+  const imageWidth = card.width * imageScale;
+  const imageHeight = card.height * imageScale;
+  const columnX = margin + SHEET.imageWidth + gap;
+  const columnWidth = width - columnX - margin;
+  const sourcesTop = margin + 96;
+  const rightHeight = sourcesTop + data.sources.length * rowHeight;
+
+  // キャンバスの高さを決めるために、先にプロンプトの折り返しを測る
+  const measure = document.createElement('canvas').getContext('2d');
+  if (!measure) throw new Error("Could not create an image to export.");
+  measure.font = `400 15px ${BODY_FONT}`;
+  const promptLines = wrapText(measure, data.prompt, width - margin * 2);
+  const promptTop = Math.max(margin + imageHeight, rightHeight) + gap;
+  const height = promptTop + 32 + promptLines.length * promptLineHeight + margin + 24;
+
+  const { canvas, ctx, palette } = createCanvas(width, height, options);
+
+  // 合成結果
+  const result = await loadBitmap(card.base64);
+  try {
+    ctx.save();
+    roundedRect(ctx, margin, margin, imageWidth, imageHeight, 12);
+    ctx.clip();
+    drawEditedImage(ctx, result, card.edit || IDENTITY_EDIT, margin, margin, imageWidth, imageHeight);
+    ctx.restore();
+  } finally {
+    result.close();
+  }
+
+  // 見出しとモデル・プリセット
+  ctx.fillStyle = ACCENT;
+  ctx.font = `800 13px ${HEADING_FONT}`;
+  ctx.fillText('SYNTHESIS RECIPE', columnX, margin + 14);
+  ctx.fillStyle = palette.ink;
+  ctx.font = `600 20px ${HEADING_FONT}`;
+  ctx.fillText([data.preset?.name, data.model].filter(Boolean).join(' · ') || 'Synthesis', columnX, margin + 44);
+  ctx.fillStyle = palette.muted;
+  ctx.font = `800 11px ${HEADING_FONT}`;
+  ctx.fillText(`SOURCES (${data.sources.length})`, columnX, sourcesTop - 16);
+
+  // 参照元ごとのサムネイルと寄与率
+  for (const [i, source] of data.sources.entries()) {
+    const y = sourcesTop + i * rowHeight;
+    ctx.save();
+    roundedRect(ctx, columnX, y, thumbSize, thumbSize, 6);
+    ctx.clip();
+    if (source.thumbnail) {
+      const bitmap = await loadBitmap(source.thumbnail);
+      try {
+        drawCover(ctx, bitmap, columnX, y, thumbSize, thumbSize);
+      } finally {
+        bitmap.close();
+      }
+    } else {
+      drawConcept(ctx, source.text?.trim() || '', columnX, y, thumbSize, thumbSize, 8);
+    }
+    ctx.restore();
+
+    const textX = columnX + thumbSize + 16;
+    const barWidth = columnWidth - thumbSize - 16;
+    const percent = `${Math.round(source.contribution)}%`;
+    const label = source.text !== undefined ? `"${source.text.trim()}"` : `Reference ${i + 1}`;
+    ctx.font = `600 14px ${BODY_FONT}`;
+    ctx.fillStyle = source.negative ? NEGATIVE : palette.ink;
+    ctx.fillText(wrapText(ctx, source.negative ? `Avoid · ${label}` : label, barWidth - 64)[0] || '', textX, y + 20);
+    ctx.textAlign = 'right';
+    ctx.font = `700 14px ${BODY_FONT}`;
+    ctx.fillText(percent, textX + barWidth, y + 20);
+    ctx.textAlign = 'left';
+
+    ctx.fillStyle = palette.panel;
+    roundedRect(ctx, textX, y + 34, barWidth, 8, 4);
+    ctx.fill();
+    ctx.fillStyle = source.negative ? NEGATIVE : ACCENT;
+    roundedRect(ctx, textX, y + 34, Math.max(8, barWidth * Math.min(1, source.contribution / 100)), 8, 4);
+    ctx.fill();
+  }
+
+  // プロンプト
+  ctx.fillStyle = palette.muted;
+  ctx.font = `800 11px ${HEADING_FONT}`;
+  ctx.fillText('PROMPT', margin, promptTop + 12);
+  ctx.fillStyle = palette.ink;
+  ctx.font = `400 15px ${BODY_FONT}`;
+  promptLines.forEach((line, i) => ctx.fillText(line, margin, promptTop + 40 + i * promptLineHeight));
+
+  ctx.fillStyle = palette.muted;
+  ctx.font = `600 11px ${BODY_FONT}`;
+  ctx.fillText('ResonaCanvas', margin, height - margin + 12);
+  return canvas.toDataURL('image/png');
+};
+
+// ファイル名に使えない文字を除く
+const toFileName = (name: string) => name.trim().replace(/[\\/:*?"<>|]+/g, '-').replace(/\s+/g, '-').toLowerCase() || 'resona';
+
+export const downloadPng = (dataUrl: string, name: string) => {
+  const link = document.createElement('a');
+  link.href = dataUrl;
+  link.download = `${toFileName(name)}.png`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
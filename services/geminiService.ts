@@ -1,44 +1,62 @@
 import { GoogleGenAI } from "@google/genai";
-import { ReferenceImage, ImageModel, AspectRatio } from "../types";
-
-const SYSTEM_INSTRUCTION = `You are a world-class senior creative director and visual synth engineer.
-Your task: Analyze multiple "Reference Images" and their "Influence Scores" to create a single, highly detailed prompt for an image generation AI.
-
-## CORE PRINCIPLE: PRINCIPLE OF SINGULARITY (単一性の原則)
-The resulting image MUST feature exactly ONE central subject (one person, one character, one primary object, or one landscape focus).
-- DO NOT place elements side-by-side (e.g., if you see a man and a woman, do not describe two people standing next to each other).
-- INSTEAD, blend features into a single, cohesive entity. Create a hybrid being or an object that incorporates traits from both.
-- The output should be a single, unified visual concept.
-
-## BLENDING RULES
-1. High Score (8-10): Determines the main subject's core identity, dominant art style, and primary color palette.
-2. Medium Score (4-7): Contributes textures, background atmosphere, lighting nuances, and secondary features.
-3. Low Score (1-3): Provides subtle accents, fine details, or background "flavor".
-
-## OUTPUT FORMAT
-- Provide ONLY the detailed visual prompt in English.
-- Describe style, lighting, composition, and physical textures.
-- No meta-commentary.`;
-
-export class GeminiService {
-
-  async generateSynthesisPrompt(images: ReferenceImage[], apiKey: string): Promise<string> {
+import { ReferenceImage, ImageModel, AspectRatio, GenerateImageOptions, SynthesisPromptOptions, isTextNode } from "../types";
+import type { ImageProvider } from "./imageProvider";
+import { AuthError, SafetyBlockError, classifyError } from "./errors";
+import { BUILT_IN_BLEND_PRESETS, buildSystemInstruction } from "./blendPresets";
+import { dataUrlMimeType } from "./ingest";
+import { composeMaskFocus } from "./mask";
+
+export class GeminiService implements ImageProvider {
+  readonly id = 'gemini' as const;
+  readonly label = 'Google Gemini';
+  readonly description = 'Gemini analysis with Gemini / Imagen generation.';
+  readonly requiresApiKey = true;
+  readonly usesModels = true;
+
+  async generateSynthesisPrompt(images: ReferenceImage[], apiKey: string, options?: SynthesisPromptOptions): Promise<string> {
 
       const effectiveKey = apiKey || process.env.NEXT_PUBLIC_GEMINI_API_KEY || process.env.API_KEY || "";
-      if (!effectiveKey) throw new Error("API Key is missing.");
+      if (!effectiveKey) throw new AuthError("API Key is missing.");
       const ai = new GoogleGenAI({ apiKey: effectiveKey });
+      const preset = options?.preset || BUILT_IN_BLEND_PRESETS[0];
       
-      const parts = images.map((img) => ([
-        { text: `[Influence Score: ${Math.round(img.score || 5)}]` },
-        { inlineData: { mimeType: "image/png", data: img.base64.split(',')[1] } }
-      ])).flat();
+      const parts = (await Promise.all(images.map(async (img) => {
+        const score = Math.round(img.score || 5);
+        // テキストノードは画像の代わりに語句そのものをスコア付きで渡す
+        if (isTextNode(img)) {
+          return [{ text: img.influence?.negative
+            ? `[NEGATIVE Text Concept | Avoidance Score: ${score}] "${img.text?.trim()}"`
+            : `[Text Concept | Influence Score: ${score}] "${img.text?.trim()}"` }];
+        }
+        // 取り込み時に正規化した画像があればそれを送る
+        const image = img.payload || img.base64;
+        return [
+          { text: img.influence?.negative
+            ? `[NEGATIVE Reference | Avoidance Score: ${score}]`
+            : `[Influence Score: ${score}]` },
+          { inlineData: { mimeType: dataUrlMimeType(image), data: image.split(',')[1] } },
+          // マスクがあれば、範囲外を暗くした画像を続けて送り強調する
+          ...(img.mask ? [
+            { text: `[Region of Interest]` },
+            { inlineData: { mimeType: 'image/jpeg', data: (await composeMaskFocus(image, img.mask)).split(',')[1] } }
+          ] : [])
+        ];
+      }))).flat();
+
+      let response;
+      try {
+        response = await ai.models.generateContent({
+          model: 'gemini-3-pro-preview',
+          contents: [{ role: 'user', parts: parts }],
+          config: { systemInstruction: buildSystemInstruction(preset), temperature: preset.temperature, abortSignal: options?.signal },
+        });
+      } catch (error) {
+        throw classifyError(error, 'gemini-3-pro-preview');
+      }
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
-        contents: [{ role: 'user', parts: parts }],
-        config: { systemInstruction: SYSTEM_INSTRUCTION, temperature: 0.9 },
-      });
-      
+      if (response.promptFeedback?.blockReason) {
+        throw new SafetyBlockError(`Reference analysis was blocked (${response.promptFeedback.blockReason}).`);
+      }
 
       const candidate = response.candidates?.[0];
       const textPart = candidate?.content?.parts?.find(p => p.text);
@@ -46,44 +64,46 @@ export class GeminiService {
   }
 
 
-  async generateImage(prompt: string, model: ImageModel, aspectRatio: AspectRatio, apiKey: string): Promise<string> {
+  async generateImage(prompt: string, model: ImageModel, aspectRatio: AspectRatio, apiKey: string, options?: GenerateImageOptions): Promise<string> {
+    const [image] = await this.generateImages(prompt, model, aspectRatio, apiKey, { ...options, count: 1 });
+    return image;
+  }
+
+  async generateImages(prompt: string, model: ImageModel, aspectRatio: AspectRatio, apiKey: string, options?: GenerateImageOptions): Promise<string[]> {
     const effectiveKey = apiKey || process.env.NEXT_PUBLIC_GEMINI_API_KEY || process.env.API_KEY || "";
-    if (!effectiveKey) throw new Error("API Key is missing.");
+    if (!effectiveKey) throw new AuthError("API Key is missing.");
 
     const ai = new GoogleGenAI({ apiKey: effectiveKey });
 
+    let response;
     try {
-
-      
-      const response = await ai.models.generateImages({
+      response = await ai.models.generateImages({
         model: model,
         prompt: prompt,
         config: {
-          numberOfImages: 1,
+          numberOfImages: Math.max(1, options?.count || 1),
           // アスペクト比の設定
           aspectRatio: aspectRatio === '1:1' ? '1:1' : aspectRatio === '16:9' ? '16:9' : aspectRatio === '9:16' ? '9:16' : '4:3',
+          abortSignal: options?.signal,
+        },
 
       });
+    } catch (error) {
+      // 取り消しはそのまま呼び出し元へ伝える。別モデルへの切り替えは呼び出し側のフォールバック方針に任せる
+      if (options?.signal?.aborted) throw error;
+      console.error("Image Generation Error:", error);
+      throw classifyError(error, model);
+    }
 
+    const images = (response.generatedImages || [])
+      .map(generated => generated.image?.imageBytes)
+      .filter((bytes): bytes is string => !!bytes)
+      .map(bytes => `data:image/png;base64,${bytes}`);
+    if (images.length > 0) return images;
 
-      if (response.generatedImages && response.generatedImages.length > 0) {
-        const base64 = response.generatedImages[0].image.imageBytes;
-        return `data:image/png;base64,${base64}`;
-      }
-
-      throw new Error("No image data returned from the model.");
-
-    } catch (error: any) {
-        console.error("Image Generation Error:", error);
-        
-       
-        if (error.message?.includes("not supported") || error.message?.includes("404")) {
-            console.warn("Model doesn't support generateImages, falling back to Imagen 4");
-            return this.generateImage(prompt, 'imagen-4.0-generate-001' as ImageModel, aspectRatio, apiKey);
-        }
-
-        throw new Error(error.message || "Failed to generate image.");
-    }
+    const filtered = response.generatedImages?.find(generated => generated.raiFilteredReason);
+    if (filtered) throw new SafetyBlockError(`Image was blocked by safety filters: ${filtered.raiFilteredReason}`);
+    throw new Error("No image data returned from the model.");
   }
 }
 
@@ -0,0 +1,97 @@
+import { ReferenceImage, SynthesisEmitter, AppSettings, BoardGroup } from '../types';
+
+// 取り消し・やり直しの対象となる盤面の状態（ビューポートや選択状態は含めない）
+export interface DocumentSnapshot {
+  images: ReferenceImage[];
+  emitters: SynthesisEmitter[];
+  groups: BoardGroup[];
+  settings: AppSettings;
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  // 同じキーの操作が続いた場合は一つの履歴にまとめる（ドラッグやスライダー操作など）
+  mergeKey?: string;
+  // 記録したときのマウス操作（押してから離すまで）の番号
+  gesture?: number;
+  timestamp: number;
+  // past側では操作の直前、future側では操作の直後の状態
+  snapshot: DocumentSnapshot;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  // 次に記録する操作のID
+  nextId: number;
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [], nextId: 1 };
+
+const HISTORY_LIMIT = 100;
+// マウス操作以外（キー入力など）は、この時間内に同じキーの操作が続けば一つの操作とみなす
+const MERGE_WINDOW = 600;
+
+/**
+ * Records an action that is about to change the document. `before` is the state the action starts from.
+ * Actions with the same merge key keep the first snapshot so they undo as one step: within one mouse
+ * gesture when `gesture` is given (however long it pauses), otherwise while they follow each other quickly.
+ */
+export const recordAction = (history: HistoryState, label: string, before: DocumentSnapshot, mergeKey?: string, gesture?: number): HistoryState => {
+  const now = Date.now();
+  const last = history.past[history.past.length - 1];
+  const sameGesture = gesture !== undefined
+    ? last?.gesture === gesture
+    : last?.gesture === undefined && now - (last?.timestamp ?? 0) < MERGE_WINDOW;
+  if (mergeKey && last?.mergeKey === mergeKey && sameGesture) {
+    return { ...history, past: [...history.past.slice(0, -1), { ...last, label, timestamp: now }], future: [] };
+  }
+  const entry: HistoryEntry = { id: history.nextId, label, mergeKey, gesture, timestamp: now, snapshot: before };
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [], nextId: history.nextId + 1 };
+};
+
+// 直前の操作を取り消し、戻すべき状態を返す。現在の状態はやり直し用に積む
+export const undoAction = (history: HistoryState, current: DocumentSnapshot): { history: HistoryState; snapshot: DocumentSnapshot } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      ...history,
+      past: history.past.slice(0, -1),
+      future: [...history.future, { ...entry, mergeKey: undefined, snapshot: current }]
+    },
+    snapshot: entry.snapshot
+  };
+};
+
+export const redoAction = (history: HistoryState, current: DocumentSnapshot): { history: HistoryState; snapshot: DocumentSnapshot } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      ...history,
+      past: [...history.past, { ...entry, mergeKey: undefined, snapshot: current }],
+      future: history.future.slice(0, -1)
+    },
+    snapshot: entry.snapshot
+  };
+};
+
+/**
+ * Moves to a position on the timeline (0 = before the oldest recorded action) by undoing or redoing step by step.
+ */
+export const jumpToPosition = (history: HistoryState, current: DocumentSnapshot, position: number): { history: HistoryState; snapshot: DocumentSnapshot } => {
+  let result = { history, snapshot: current };
+  while (result.history.past.length > position) {
+    const step = undoAction(result.history, result.snapshot);
+    if (!step) break;
+    result = step;
+  }
+  while (result.history.past.length < position) {
+    const step = redoAction(result.history, result.snapshot);
+    if (!step) break;
+    result = step;
+  }
+  return result;
+};
@@ -0,0 +1,83 @@
+import { ImageEdit, ImageRotation, IDENTITY_EDIT } from '../types';
+import { dataUrlToBlob } from './blobUtils';
+import { dataUrlMimeType } from './ingest';
+
+const JPEG_QUALITY = 0.9;
+// 切り抜き範囲の最小幅（元画像に対する比率）
+export const MIN_CROP = 0.05;
+
+export const isIdentityEdit = (edit: ImageEdit) =>
+  edit.rotation === 0 && !edit.flipX && !edit.flipY &&
+  edit.crop.x === 0 && edit.crop.y === 0 && edit.crop.width === 1 && edit.crop.height === 1;
+
+export const isQuarterTurn = (rotation: ImageRotation) => rotation === 90 || rotation === 270;
+
+/**
+ * Size of the edited image for a source of the given size: the crop, with width and height
+ * swapped when the image is turned a quarter.
+ */
+export const getEditedSize = (edit: ImageEdit, sourceWidth: number, sourceHeight: number) => {
+  const width = sourceWidth * edit.crop.width;
+  const height = sourceHeight * edit.crop.height;
+  return isQuarterTurn(edit.rotation) ? { width: height, height: width } : { width, height };
+};
+
+export const rotateEdit = (edit: ImageEdit, clockwise: boolean): ImageEdit => ({
+  ...edit,
+  rotation: (((edit.rotation + (clockwise ? 90 : 270)) % 360) as ImageRotation)
+});
+
+// 反転は回転後の見た目に対して行う
+export const flipEdit = (edit: ImageEdit, axis: 'x' | 'y'): ImageEdit =>
+  axis === 'x' ? { ...edit, flipX: !edit.flipX } : { ...edit, flipY: !edit.flipY };
+
+/**
+ * CSS transform that turns and mirrors the cropped image the same way `renderEditedImage` does.
+ */
+export const getEditTransform = (edit: ImageEdit) =>
+  `scale(${edit.flipX ? -1 : 1}, ${edit.flipY ? -1 : 1}) rotate(${edit.rotation}deg)`;
+
+/**
+ * Draws the source cropped, turned and mirrored into the output rect (x, y, width, height) of `ctx`.
+ * The rect should have the edited aspect ratio.
+ */
+export const drawEditedImage = (ctx: CanvasRenderingContext2D, source: ImageBitmap, edit: ImageEdit, x: number, y: number, width: number, height: number) => {
+  // 回転前の切り抜きの描画サイズ
+  const drawWidth = isQuarterTurn(edit.rotation) ? height : width;
+  const drawHeight = isQuarterTurn(edit.rotation) ? width : height;
+  ctx.save();
+  ctx.translate(x + width / 2, y + height / 2);
+  ctx.scale(edit.flipX ? -1 : 1, edit.flipY ? -1 : 1);
+  ctx.rotate((edit.rotation * Math.PI) / 180);
+  ctx.drawImage(
+    source,
+    edit.crop.x * source.width, edit.crop.y * source.height, edit.crop.width * source.width, edit.crop.height * source.height,
+    -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight
+  );
+  ctx.restore();
+};
+
+/**
+ * Draws the edited image from the original. The long side is scaled down to `maxEdge`;
+ * `width`/`height` are the full-resolution size of the result, for the card's aspect ratio.
+ */
+export const renderEditedImage = async (source: string, edit: ImageEdit = IDENTITY_EDIT, maxEdge = Infinity) => {
+  const bitmap = await createImageBitmap(dataUrlToBlob(source), { imageOrientation: 'from-image' });
+  try {
+    const { width, height } = getEditedSize(edit, bitmap.width, bitmap.height);
+    const scale = Math.min(1, maxEdge / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not render the edited image.");
+    ctx.imageSmoothingQuality = 'high';
+    drawEditedImage(ctx, bitmap, edit, 0, 0, canvas.width, canvas.height);
+    const dataUrl = dataUrlMimeType(source) === 'image/jpeg'
+      ? canvas.toDataURL('image/jpeg', JPEG_QUALITY)
+      : canvas.toDataURL('image/png');
+    return { dataUrl, width, height };
+  } finally {
+    bitmap.close();
+  }
+};
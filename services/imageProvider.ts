@@ -0,0 +1,84 @@
+import { ReferenceImage, ImageModel, AspectRatio, ImageProviderId, AppSettings, GenerateImageOptions, SynthesisPromptOptions } from '../types';
+import { geminiService } from './geminiService';
+import { mockProvider } from './mockProvider';
+import { LocalHttpProvider, LOCAL_HTTP_PROVIDER_INFO } from './localHttpProvider';
+import { SynthesisError, withRetry } from './errors';
+
+/**
+ * The two stages of a synthesis: reference analysis into a prompt, then image generation from it.
+ */
+export interface ImageProvider {
+  readonly id: ImageProviderId;
+  readonly label: string;
+  readonly description: string;
+  readonly requiresApiKey: boolean;
+  // generateImagesのmodel引数を使うかどうか（使わないプロバイダではフォールバックもしない）
+  readonly usesModels: boolean;
+  generateSynthesisPrompt(images: ReferenceImage[], apiKey: string, options?: SynthesisPromptOptions): Promise<string>;
+  generateImage(prompt: string, model: ImageModel, aspectRatio: AspectRatio, apiKey: string, options?: GenerateImageOptions): Promise<string>;
+  // options.count枚のバリエーションを同じプロンプトから生成する
+  generateImages(prompt: string, model: ImageModel, aspectRatio: AspectRatio, apiKey: string, options?: GenerateImageOptions): Promise<string[]>;
+}
+
+export type ImageProviderInfo = Pick<ImageProvider, 'id' | 'label' | 'description'>;
+
+export const IMAGE_PROVIDERS: ImageProviderInfo[] = [geminiService, mockProvider, LOCAL_HTTP_PROVIDER_INFO];
+
+const STATIC_PROVIDERS = {
+  gemini: geminiService,
+  mock: mockProvider
+};
+
+export const getImageProvider = (settings: Pick<AppSettings, 'provider' | 'localBackend'>): ImageProvider => {
+  if (settings.provider === 'local-http') {
+    return new LocalHttpProvider(settings.localBackend, STATIC_PROVIDERS[settings.localBackend.promptProvider] || geminiService);
+  }
+  return STATIC_PROVIDERS[settings.provider] || geminiService;
+};
+
+export interface GenerationResult {
+  images: string[];
+  // 実際に画像を生成したモデル（フォールバックした場合は要求したモデルと異なる）。モデルを使わないプロバイダでは無し
+  model?: ImageModel;
+}
+
+/**
+ * Generates with the first model of `models`, retrying transient failures with backoff.
+ * When a model fails with a fallbackable error (unsupported model, exhausted quota), the next model in the chain is tried.
+ * Providers that ignore the model are called once, without fallback, and report no model.
+ */
+export const generateWithFallback = async (
+  provider: ImageProvider,
+  prompt: string,
+  models: ImageModel[],
+  aspectRatio: AspectRatio,
+  apiKey: string,
+  options: GenerateImageOptions,
+  hooks: {
+    onRetry?: (model: ImageModel, attempt: number, delayMs: number, error: SynthesisError) => void;
+    onFallback?: (from: ImageModel, to: ImageModel, error: SynthesisError) => void;
+  } = {}
+): Promise<GenerationResult> => {
+  if (!provider.usesModels) {
+    const images = await withRetry(
+      () => provider.generateImages(prompt, models[0], aspectRatio, apiKey, options),
+      { signal: options.signal, onRetry: (attempt, delayMs, error) => hooks.onRetry?.(models[0], attempt, delayMs, error) }
+    );
+    return { images };
+  }
+  for (let i = 0; i < models.length; i++) {
+    const model = models[i];
+    try {
+      const images = await withRetry(
+        () => provider.generateImages(prompt, model, aspectRatio, apiKey, options),
+        { signal: options.signal, model, onRetry: (attempt, delayMs, error) => hooks.onRetry?.(model, attempt, delayMs, error) }
+      );
+      return { images, model };
+    } catch (error) {
+      const next = models[i + 1];
+      if (!next || !(error instanceof SynthesisError) || !error.fallbackable || options.signal?.aborted) throw error;
+      hooks.onFallback?.(model, next, error);
+    }
+  }
+  throw new Error("No image model configured.");
+};
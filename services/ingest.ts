@@ -0,0 +1,157 @@
+import { blobToDataUrl, dataUrlToBlob } from './blobUtils';
+
+// モデルに送る画像の長辺の既定値
+export const DEFAULT_INGEST_MAX_EDGE = 1536;
+export const INGEST_MAX_EDGE_OPTIONS = [768, 1024, 1536, 2048];
+
+// 盤面に置ける形式（HEICなどブラウザで表示できない形式は受け付けない）
+export type IngestMimeType = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/gif' | 'image/bmp';
+
+// モデルにそのまま渡せる形式。それ以外は再エンコードする
+const MODEL_MIME_TYPES: IngestMimeType[] = ['image/png', 'image/jpeg', 'image/webp'];
+const JPEG_QUALITY = 0.9;
+
+export class IngestError extends Error {
+  constructor(readonly fileName: string, message: string) {
+    super(`${fileName}: ${message}`);
+    this.name = 'IngestError';
+  }
+}
+
+export interface IngestedImage {
+  // 表示・書き出し用の元データ（再エンコードしない）
+  original: string;
+  // モデルに送る正規化済みデータ（向きを補正し、長辺をmaxEdge以下に縮小したもの）
+  payload: string;
+  mimeType: IngestMimeType;
+  // 向き補正後の元画像の大きさ
+  width: number;
+  height: number;
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (text: string) => Array.from(text).map(c => c.charCodeAt(0));
+
+/**
+ * Detects the image format from the file's magic bytes, ignoring its name and declared type.
+ */
+export const sniffMimeType = (bytes: Uint8Array): IngestMimeType | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(bytes, ascii('BM'))) return 'image/bmp';
+  return null;
+};
+
+// 受け付けない画像形式を、エラーメッセージ用の名前で見分ける
+const describeUnsupported = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, ascii('ftyp'), 4)) {
+    const brand = String.fromCharCode(...Array.from(bytes.slice(8, 12)));
+    if (/^hei|^hev|^mif1|^msf1/.test(brand)) return 'HEIC/HEIF';
+    if (/^avi/.test(brand)) return 'AVIF';
+  }
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return 'TIFF';
+  if (startsWith(bytes, ascii('<svg')) || startsWith(bytes, ascii('<?xml'))) return 'SVG';
+  return null;
+};
+
+/**
+ * Reads the EXIF orientation (1-8) from a JPEG. Returns 1 when there is none.
+ */
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 の "Exif\0\0" セグメントだけを見る
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+    // 画像データの開始（SOS）以降にEXIFは無い
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+/**
+ * Decodes, validates and normalizes an image file.
+ * The original bytes are kept for display; the payload sent to the model is upright,
+ * no larger than `maxEdge` on its long side, and in a format the model accepts.
+ */
+export const ingestImage = async (file: Blob, maxEdge = DEFAULT_INGEST_MAX_EDGE, fileName = (file as File).name || 'Pasted image'): Promise<IngestedImage> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (bytes.length === 0) throw new IngestError(fileName, "The file is empty.");
+  const mimeType = sniffMimeType(bytes);
+  if (!mimeType) {
+    const unsupported = describeUnsupported(bytes);
+    throw new IngestError(fileName, unsupported
+      ? `${unsupported} images are not supported. Convert it to PNG, JPEG or WebP first.`
+      : "Not a supported image. Use PNG, JPEG, WebP, GIF or BMP.");
+  }
+
+  const blob = new Blob([bytes], { type: mimeType });
+  let bitmap: ImageBitmap;
+  try {
+    // ブラウザにEXIFの向きを適用させてから描画する
+    bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  } catch {
+    throw new IngestError(fileName, "The image is corrupt or could not be decoded.");
+  }
+
+  try {
+    const { width, height } = bitmap;
+    if (!width || !height) throw new IngestError(fileName, "The image has no pixels.");
+    const original = await blobToDataUrl(blob);
+    const orientation = mimeType === 'image/jpeg' ? readExifOrientation(bytes) : 1;
+    const scale = Math.min(1, maxEdge / Math.max(width, height));
+
+    // 向き・大きさ・形式のどれも問題なければ元データをそのまま送る
+    if (scale === 1 && orientation === 1 && MODEL_MIME_TYPES.includes(mimeType)) {
+      return { original, payload: original, mimeType, width, height };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new IngestError(fileName, "Could not prepare the image for the model.");
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    // 透過を保つため、JPEG以外はPNGで書き出す
+    const payload = mimeType === 'image/jpeg'
+      ? canvas.toDataURL('image/jpeg', JPEG_QUALITY)
+      : canvas.toDataURL('image/png');
+    return { original, payload, mimeType, width, height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Runs `ingestImage` on a data URL, e.g. a camera frame or a clipboard image.
+ */
+export const ingestDataUrl = (dataUrl: string, maxEdge?: number, fileName?: string): Promise<IngestedImage> =>
+  ingestImage(dataUrlToBlob(dataUrl), maxEdge, fileName);
+
+// data URLの宣言からMIMEタイプを取り出す（モデルに送るときに使う）
+export const dataUrlMimeType = (dataUrl: string): string => dataUrl.match(/^data:([^;,]+)/)?.[1] || 'image/png';
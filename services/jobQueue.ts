@@ -0,0 +1,147 @@
+import { LoadingStep } from '../types';
+
+export type JobStatus = 'pending' | 'running' | 'failed';
+
+export interface SynthesisJob {
+  id: string;
+  label: string;
+  status: JobStatus;
+  // 実行中の段階（ANALYZING / REVIEWING / GENERATING）。失敗時はERROR
+  step: LoadingStep;
+  error?: string;
+  // 再試行やフォールバックなど、段階に付随する補足
+  detail?: string;
+  // エミッターから発火したジョブであれば、そのエミッターのID
+  emitterId?: string;
+  createdAt: number;
+}
+
+export type JobRunner = (signal: AbortSignal, setStep: (step: LoadingStep) => void, setDetail: (detail?: string) => void) => Promise<void>;
+
+interface QueuedJob {
+  job: SynthesisJob;
+  run: JobRunner;
+  controller: AbortController | null;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+
+/**
+ * Runs synthesis jobs with a concurrency limit.
+ * Finished and cancelled jobs leave the queue; failed jobs stay until they are retried or dismissed.
+ */
+export class JobQueue {
+  private entries: QueuedJob[] = [];
+  private listeners = new Set<(jobs: SynthesisJob[]) => void>();
+
+  constructor(private concurrency = 2) {}
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.pump();
+  }
+
+  subscribe(listener: (jobs: SynthesisJob[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getJobs());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getJobs(): SynthesisJob[] {
+    return this.entries.map(entry => entry.job);
+  }
+
+  enqueue(job: { id: string; label: string; emitterId?: string }, run: JobRunner): string {
+    this.entries.push({
+      job: { ...job, status: 'pending', step: LoadingStep.IDLE, createdAt: Date.now() },
+      run,
+      controller: null
+    });
+    this.notify();
+    this.pump();
+    return job.id;
+  }
+
+  // 待機中なら取り除き、実行中ならabortシグナルで中断する
+  cancel(id: string) {
+    const entry = this.entries.find(e => e.job.id === id);
+    if (!entry) return;
+    entry.controller?.abort();
+    this.remove(id);
+  }
+
+  cancelAll() {
+    this.entries.forEach(entry => entry.controller?.abort());
+    this.entries = [];
+    this.notify();
+  }
+
+  // 同じrunnerをもう一度実行する。接続し直したキーなどが効くよう、runnerはそれらを実行時に読むこと
+  retry(id: string) {
+    const entry = this.entries.find(e => e.job.id === id);
+    if (!entry || entry.job.status !== 'failed') return;
+    this.update(entry, { status: 'pending', step: LoadingStep.IDLE, error: undefined, detail: undefined });
+    this.pump();
+  }
+
+  dismiss(id: string) {
+    const entry = this.entries.find(e => e.job.id === id);
+    if (entry?.job.status === 'failed') this.remove(id);
+  }
+
+  private pump() {
+    let running = this.entries.filter(e => e.job.status === 'running').length;
+    for (const entry of this.entries) {
+      if (running >= this.concurrency) break;
+      if (entry.job.status !== 'pending') continue;
+      running++;
+      this.start(entry);
+    }
+  }
+
+  private async start(entry: QueuedJob) {
+    const controller = new AbortController();
+    entry.controller = controller;
+    this.update(entry, { status: 'running' });
+
+    try {
+      await entry.run(controller.signal, (step) => {
+        if (!controller.signal.aborted) this.update(entry, { step, detail: undefined });
+      }, (detail) => {
+        if (!controller.signal.aborted) this.update(entry, { detail });
+      });
+      this.remove(entry.job.id);
+    } catch (error) {
+      // 取り消されたジョブはcancel()の時点で一覧から外れている
+      if (!controller.signal.aborted && !isAbortError(error)) {
+        this.update(entry, { status: 'failed', step: LoadingStep.ERROR, error: error instanceof Error && error.message ? error.message : 'Synthesis failed.' });
+      } else {
+        this.remove(entry.job.id);
+      }
+    } finally {
+      entry.controller = null;
+      this.pump();
+    }
+  }
+
+  private update(entry: QueuedJob, patch: Partial<SynthesisJob>) {
+    if (!this.entries.includes(entry)) return;
+    entry.job = { ...entry.job, ...patch };
+    this.notify();
+  }
+
+  private remove(id: string) {
+    this.entries = this.entries.filter(e => e.job.id !== id);
+    this.notify();
+  }
+
+  private notify() {
+    const jobs = this.getJobs();
+    this.listeners.forEach(listener => listener(jobs));
+  }
+}
+
+export const synthesisQueue = new JobQueue();
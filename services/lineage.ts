@@ -0,0 +1,94 @@
+import { ReferenceImage, LineageLink } from '../types';
+
+export interface LineageNode {
+  id: string;
+  // 盤面上のカードの画像、削除済みなら合成時のスナップショット（不明なら空文字）
+  thumbnail: string;
+  // テキストノードの語句
+  text?: string;
+  // 盤面から削除され、スナップショットだけが残っているか
+  archived: boolean;
+  parents: LineageLink[];
+  children: LineageLink[];
+}
+
+export type LineageIndex = Map<string, LineageNode>;
+
+const toLinks = (img: ReferenceImage): LineageLink[] =>
+  (img.synthesisData?.sources || [])
+    .filter(source => !!source.id)
+    .map(source => ({ id: source.id!, contribution: source.contribution, negative: source.negative }));
+
+/**
+ * Builds the parent/child graph of the board from the source IDs recorded on synthesized cards.
+ * Sources whose card no longer exists become archived nodes backed by their stored snapshot.
+ */
+export const buildLineageIndex = (images: ReferenceImage[]): LineageIndex => {
+  const index: LineageIndex = new Map();
+
+  images.forEach((img) => {
+    if (img.isGenerating) return;
+    index.set(img.id, { id: img.id, thumbnail: img.base64, text: img.text, archived: false, parents: toLinks(img), children: [] });
+  });
+
+  // 削除済みの参照元はスナップショットから復元する。親の記録があるスナップショットを優先する
+  images.forEach((img) => {
+    img.synthesisData?.sources.forEach((source) => {
+      if (!source.id) return;
+      const existing = index.get(source.id);
+      if (!existing) {
+        index.set(source.id, { id: source.id, thumbnail: source.thumbnail, text: source.text, archived: true, parents: source.parents || [], children: [] });
+      } else if (existing.archived && existing.parents.length === 0 && source.parents?.length) {
+        existing.parents = source.parents;
+      }
+    });
+  });
+
+  // スナップショットにしか現れない祖先も、画像なしのノードとして残す
+  Array.from(index.values()).forEach((node) => {
+    node.parents.forEach((link) => {
+      if (!index.has(link.id)) {
+        index.set(link.id, { id: link.id, thumbnail: '', archived: true, parents: [], children: [] });
+      }
+    });
+  });
+
+  index.forEach((node) => {
+    node.parents.forEach((link) => {
+      index.get(link.id)!.children.push({ id: node.id, contribution: link.contribution, negative: link.negative });
+    });
+  });
+  return index;
+};
+
+const walk = (index: LineageIndex, rootId: string, depth: number, next: (node: LineageNode) => LineageLink[]): LineageNode[][] => {
+  const generations: LineageNode[][] = [];
+  const visited = new Set([rootId]);
+  let frontier = [rootId];
+
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    const generation: LineageNode[] = [];
+    frontier.forEach((id) => {
+      const node = index.get(id);
+      if (!node) return;
+      next(node).forEach((link) => {
+        if (visited.has(link.id)) return;
+        visited.add(link.id);
+        const linked = index.get(link.id);
+        if (linked) generation.push(linked);
+      });
+    });
+    if (generation.length === 0) break;
+    generations.push(generation);
+    frontier = generation.map(node => node.id);
+  }
+  return generations;
+};
+
+// 親、祖父母…の順に世代ごとのノードを返す
+export const collectAncestors = (index: LineageIndex, rootId: string, depth: number): LineageNode[][] =>
+  walk(index, rootId, depth, node => node.parents);
+
+// 子、孫…の順に世代ごとのノードを返す
+export const collectDescendants = (index: LineageIndex, rootId: string, depth: number): LineageNode[][] =>
+  walk(index, rootId, depth, node => node.children);
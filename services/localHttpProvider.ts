@@ -0,0 +1,98 @@
+import { ReferenceImage, ImageModel, AspectRatio, LocalBackendSettings, GenerateImageOptions, SynthesisPromptOptions, getAspectDimensions } from '../types';
+import type { ImageProvider } from './imageProvider';
+import { blobToDataUrl } from './blobUtils';
+import { NetworkError, RateLimitError } from './errors';
+
+const DEFAULT_SIZE = 512;
+const MIN_EDGE = 256;
+const MAX_EDGE = 1536;
+
+// Stable Diffusion系のバックエンドは64の倍数の解像度を要求する
+const toModelEdge = (value: number) => Math.min(MAX_EDGE, Math.max(MIN_EDGE, Math.round(value / 64) * 64));
+
+const toDataUrl = (image: string) => image.startsWith('data:') ? image : `data:image/png;base64,${image}`;
+
+export const LOCAL_HTTP_PROVIDER_INFO = {
+  id: 'local-http' as const,
+  label: 'Local HTTP Backend',
+  description: 'Stable Diffusion WebUI or a generic JSON endpoint on your machine.'
+};
+
+/**
+ * Sends the synthesized prompt to a self-hosted HTTP image backend.
+ * Prompt analysis is delegated to another provider, since local backends only generate images.
+ */
+export class LocalHttpProvider implements ImageProvider {
+  readonly id = LOCAL_HTTP_PROVIDER_INFO.id;
+  readonly label = LOCAL_HTTP_PROVIDER_INFO.label;
+  readonly description = LOCAL_HTTP_PROVIDER_INFO.description;
+  readonly requiresApiKey: boolean;
+  // 生成に使うモデルはバックエンド側の設定で決まる
+  readonly usesModels = false;
+
+  constructor(private config: LocalBackendSettings, private promptProvider: ImageProvider) {
+    this.requiresApiKey = promptProvider.requiresApiKey;
+  }
+
+  generateSynthesisPrompt(images: ReferenceImage[], apiKey: string, options?: SynthesisPromptOptions): Promise<string> {
+    return this.promptProvider.generateSynthesisPrompt(images, apiKey, options);
+  }
+
+  async generateImage(prompt: string, model: ImageModel, aspectRatio: AspectRatio, apiKey: string, options?: GenerateImageOptions): Promise<string> {
+    const [image] = await this.generateImages(prompt, model, aspectRatio, apiKey, { ...options, count: 1 });
+    return image;
+  }
+
+  async generateImages(prompt: string, model: ImageModel, aspectRatio: AspectRatio, _apiKey: string, options?: GenerateImageOptions): Promise<string[]> {
+    const count = Math.max(1, options?.count || 1);
+    const endpoint = this.config.endpoint.trim().replace(/\/+$/, '');
+    if (!endpoint) throw new Error("Local backend endpoint is not configured.");
+
+    const target = getAspectDimensions(aspectRatio, options?.size || DEFAULT_SIZE);
+    // カードサイズが小さすぎる場合でも最低限の解像度を確保する
+    const scale = Math.max(1, MIN_EDGE / Math.min(target.width, target.height));
+    const width = toModelEdge(target.width * scale);
+    const height = toModelEdge(target.height * scale);
+
+    const isA1111 = this.config.apiStyle === 'a1111';
+    const url = isA1111 ? `${endpoint}/sdapi/v1/txt2img` : endpoint;
+    const body = isA1111
+      ? { prompt, width, height, steps: this.config.steps, sampler_name: this.config.sampler, batch_size: count, n_iter: 1 }
+      : { prompt, model, aspectRatio, width, height, steps: this.config.steps, sampler: this.config.sampler, count };
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: options?.signal
+      });
+    } catch (error) {
+      if (options?.signal?.aborted) throw error;
+      throw new NetworkError(`Could not reach local backend at ${endpoint}: ${error instanceof Error ? error.message : String(error)}`, error);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const message = `Local backend responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`;
+      // 混雑や一時的な障害は再試行の対象にする
+      if (response.status === 429) throw new RateLimitError(message);
+      if (response.status >= 500) throw new NetworkError(message);
+      throw new Error(message);
+    }
+
+    // 画像そのものを返すバックエンドにも対応する
+    const contentType = response.headers.get('Content-Type') || '';
+    if (contentType.startsWith('image/')) {
+      return [await blobToDataUrl(await response.blob())];
+    }
+
+    const data = await response.json();
+    const images: unknown[] = Array.isArray(data?.images) ? data.images : [data?.image];
+    const valid = images.filter((image): image is string => typeof image === 'string' && !!image);
+    if (valid.length === 0) {
+      throw new Error("No image data returned from the local backend.");
+    }
+    return valid.slice(0, count).map(toDataUrl);
+  }
+}
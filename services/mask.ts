@@ -0,0 +1,44 @@
+import { dataUrlToBlob } from './blobUtils';
+
+// マスクはこの長辺で保存する（範囲の指定に細かい解像度は要らない）
+export const MASK_MAX_EDGE = 512;
+// 注目範囲の外側の明るさ
+const DIM_ALPHA = 0.2;
+const DIM_BACKGROUND = '#0f172a';
+
+const loadBitmap = (dataUrl: string) => createImageBitmap(dataUrlToBlob(dataUrl), { imageOrientation: 'from-image' });
+
+/**
+ * Returns a copy of the image with everything outside the mask dimmed, for sending
+ * alongside the reference as its region of interest. The mask is stretched to the image.
+ */
+export const composeMaskFocus = async (image: string, mask: string): Promise<string> => {
+  const [source, maskBitmap] = await Promise.all([loadBitmap(image), loadBitmap(mask)]);
+  try {
+    const { width, height } = source;
+    // 注目範囲だけを切り出した層
+    const region = document.createElement('canvas');
+    region.width = width;
+    region.height = height;
+    const regionCtx = region.getContext('2d');
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!regionCtx || !ctx) throw new Error("Could not compose the region of interest.");
+    regionCtx.drawImage(source, 0, 0);
+    regionCtx.globalCompositeOperation = 'destination-in';
+    regionCtx.drawImage(maskBitmap, 0, 0, width, height);
+
+    ctx.fillStyle = DIM_BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalAlpha = DIM_ALPHA;
+    ctx.drawImage(source, 0, 0);
+    ctx.globalAlpha = 1;
+    ctx.drawImage(region, 0, 0);
+    return canvas.toDataURL('image/jpeg', 0.9);
+  } finally {
+    source.close();
+    maskBitmap.close();
+  }
+};
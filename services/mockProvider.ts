@@ -0,0 +1,147 @@
+import { ReferenceImage, ImageModel, AspectRatio, GenerateImageOptions, SynthesisPromptOptions, isTextNode } from '../types';
+import type { ImageProvider } from './imageProvider';
+
+const SUBJECTS = ['chimeric fox spirit', 'crystalline lighthouse', 'clockwork botanist', 'nebula-skinned whale', 'obsidian cathedral', 'velvet automaton'];
+const STYLES = ['ukiyo-e woodblock', 'brutalist concrete', 'holographic vaporwave', 'oil-on-linen impasto', 'risograph print', 'baroque chiaroscuro'];
+const LIGHTING = ['golden hour rim light', 'cold volumetric fog', 'neon bounce light', 'soft overcast diffusion', 'candlelit glow', 'harsh noon shadows'];
+const TEXTURES = ['weathered brass', 'wet ink bleeding', 'frosted glass', 'woven silk', 'cracked porcelain', 'mossy stone'];
+
+const DIMENSIONS: Record<AspectRatio, [number, number]> = {
+  '1:1': [512, 512],
+  '4:3': [512, 384],
+  '16:9': [640, 360],
+  '9:16': [360, 640]
+};
+
+// 同じ入力から常に同じ結果を得るための文字列ハッシュと擬似乱数
+const hashString = (value: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const pick = <T,>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('The operation was aborted.', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  if (signal?.aborted) abort();
+  else signal?.addEventListener('abort', abort, { once: true });
+});
+
+/**
+ * Offline provider that returns canned prompts and procedurally drawn images.
+ * Output depends only on its inputs, so the canvas workflow can be exercised without a key or network.
+ */
+export class MockImageProvider implements ImageProvider {
+  readonly id = 'mock' as const;
+  readonly label = 'Offline Mock';
+  readonly description = 'Deterministic canned prompts and procedural images. No key or network.';
+  readonly requiresApiKey = false;
+  readonly usesModels = false;
+
+  constructor(private latencyMs = 300) {}
+
+  async generateSynthesisPrompt(images: ReferenceImage[], _apiKey: string, options?: SynthesisPromptOptions): Promise<string> {
+    await delay(this.latencyMs, options?.signal);
+    const preset = options?.preset;
+    const signature = images
+      .map(img => `${img.id}:${Math.round(img.score || 5)}:${img.text ?? img.base64.length}:${img.mask?.length || 0}`)
+      .concat(preset ? [preset.id] : [])
+      .join('|');
+    const random = createRandom(hashString(signature));
+    const positives = images.filter(img => !img.influence?.negative);
+    const negatives = images.length - positives.length;
+    const concepts = positives.filter(isTextNode).map(img => img.text?.trim());
+    const focused = positives.filter(img => img.mask).length;
+    const dominant = positives.reduce((best, img) => (img.score || 0) > (best.score || 0) ? img : best, positives[0]);
+
+    return [
+      `A single ${pick(SUBJECTS, random)} rendered in ${pick(STYLES, random)} style,`,
+      `lit by ${pick(LIGHTING, random)}, with surfaces of ${pick(TEXTURES, random)}.`,
+      `Fused from ${positives.length} reference${positives.length === 1 ? '' : 's'}, dominant influence score ${Math.round(dominant?.score || 0)}.`,
+      concepts.length > 0 ? `Guided by the concepts ${concepts.map(text => `"${text}"`).join(', ')}.` : '',
+      focused > 0 ? `Focused on ${focused} region${focused === 1 ? '' : 's'} of interest.` : '',
+      negatives > 0 ? `Avoiding traits of ${negatives} negative reference${negatives === 1 ? '' : 's'}.` : '',
+      preset ? `Blend mode: ${preset.name}.` : ''
+    ].filter(Boolean).join(' ');
+  }
+
+  async generateImage(prompt: string, model: ImageModel, aspectRatio: AspectRatio, _apiKey: string, options?: GenerateImageOptions): Promise<string> {
+    await delay(this.latencyMs, options?.signal);
+    return this.draw(prompt, model, aspectRatio, 0);
+  }
+
+  async generateImages(prompt: string, model: ImageModel, aspectRatio: AspectRatio, _apiKey: string, options?: GenerateImageOptions): Promise<string[]> {
+    await delay(this.latencyMs, options?.signal);
+    const count = Math.max(1, options?.count || 1);
+    return Array.from({ length: count }, (_, variant) => this.draw(prompt, model, aspectRatio, variant));
+  }
+
+  private draw(prompt: string, model: ImageModel, aspectRatio: AspectRatio, variant: number): string {
+    const [width, height] = DIMENSIONS[aspectRatio] || DIMENSIONS['1:1'];
+    // バリエーション0は単体生成と同じ絵になるようにシードを揃える
+    const random = createRandom(hashString(`${model}|${aspectRatio}|${prompt}${variant ? `|${variant}` : ''}`));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context is unavailable.");
+
+    const hue = Math.floor(random() * 360);
+    const background = ctx.createLinearGradient(0, 0, width, height);
+    background.addColorStop(0, `hsl(${hue}, 60%, 18%)`);
+    background.addColorStop(1, `hsl(${(hue + 140) % 360}, 55%, 8%)`);
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+
+    // 単一性の原則に倣い、中央に一つの主題となる形を描く
+    const blobs = 5 + Math.floor(random() * 6);
+    for (let i = 0; i < blobs; i++) {
+      const x = width * (0.3 + random() * 0.4);
+      const y = height * (0.3 + random() * 0.4);
+      const r = Math.min(width, height) * (0.1 + random() * 0.25);
+      const glow = ctx.createRadialGradient(x, y, 0, x, y, r);
+      glow.addColorStop(0, `hsla(${(hue + i * 37) % 360}, 80%, 65%, 0.85)`);
+      glow.addColorStop(1, `hsla(${(hue + i * 37) % 360}, 80%, 50%, 0)`);
+      ctx.fillStyle = glow;
+      ctx.beginPath();
+      ctx.arc(x, y, r, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.strokeStyle = `hsla(${(hue + 200) % 360}, 70%, 80%, 0.15)`;
+    for (let i = 0; i < 40; i++) {
+      ctx.lineWidth = 1 + random() * 2;
+      ctx.beginPath();
+      ctx.moveTo(random() * width, random() * height);
+      ctx.quadraticCurveTo(random() * width, random() * height, random() * width, random() * height);
+      ctx.stroke();
+    }
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.font = 'bold 12px monospace';
+    ctx.fillText(`MOCK · ${model}`, 12, height - 14);
+
+    return canvas.toDataURL('image/png');
+  }
+}
+
+export const mockProvider = new MockImageProvider();
@@ -0,0 +1,135 @@
+import { Rect } from '../types';
+
+// キャンバスに描いているドットグリッドの間隔
+export const GRID_SIZE = 40;
+
+export interface SnapGuide {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  // align: 辺・中心の揃い / spacing: 等間隔のヒント
+  kind: 'align' | 'spacing';
+}
+
+export interface SnapOptions {
+  grid: number | null;
+  guides: boolean;
+  // キャンバス座標での吸着距離
+  threshold: number;
+}
+
+export interface SnapResult {
+  x: number;
+  y: number;
+  guides: SnapGuide[];
+}
+
+type Axis = 'x' | 'y';
+
+// 軸ごとに位置・長さ・直交方向の範囲を取り出す
+const span = (rect: Rect, axis: Axis) => axis === 'x'
+  ? { start: rect.x, length: rect.width, crossStart: rect.y, crossLength: rect.height }
+  : { start: rect.y, length: rect.height, crossStart: rect.x, crossLength: rect.width };
+
+const anchors = (start: number, length: number) => [start, start + length / 2, start + length];
+
+// 軸方向の座標と直交方向の座標から、軸に応じた線分を作る
+const segment = (axis: Axis, a1: number, a2: number, c1: number, c2: number, kind: SnapGuide['kind']): SnapGuide => axis === 'x'
+  ? { x1: a1, y1: c1, x2: a2, y2: c2, kind }
+  : { x1: c1, y1: a1, x2: c2, y2: a2, kind };
+
+const snapAlignment = (moving: Rect, others: Rect[], axis: Axis, threshold: number) => {
+  const m = span(moving, axis);
+  let delta: number | null = null;
+  for (const other of others) {
+    const o = span(other, axis);
+    for (const edge of anchors(m.start, m.length)) {
+      for (const target of anchors(o.start, o.length)) {
+        const d = target - edge;
+        if (Math.abs(d) <= threshold && (delta === null || Math.abs(d) < Math.abs(delta))) delta = d;
+      }
+    }
+  }
+  if (delta === null) return null;
+
+  // 吸着後の位置で揃っているすべての辺・中心にガイドを引く
+  const start = m.start + delta;
+  const guides: SnapGuide[] = [];
+  anchors(start, m.length).forEach((edge) => {
+    const matches = others.filter(other => anchors(span(other, axis).start, span(other, axis).length).some(target => Math.abs(target - edge) < 0.5));
+    if (matches.length === 0) return;
+    const crossStarts = [m.crossStart, ...matches.map(other => span(other, axis).crossStart)];
+    const crossEnds = [m.crossStart + m.crossLength, ...matches.map(other => span(other, axis).crossStart + span(other, axis).crossLength)];
+    guides.push(segment(axis, edge, edge, Math.min(...crossStarts), Math.max(...crossEnds), 'align'));
+  });
+  return { start, guides };
+};
+
+const snapSpacing = (moving: Rect, others: Rect[], axis: Axis, threshold: number) => {
+  const m = span(moving, axis);
+  // 直交方向に重なっている（同じ行・列に並んでいる）カードだけを対象にする
+  const row = others
+    .map(other => span(other, axis))
+    .filter(o => o.crossStart < m.crossStart + m.crossLength && o.crossStart + o.crossLength > m.crossStart)
+    .sort((a, b) => a.start - b.start);
+  const cross = m.crossStart + m.crossLength / 2;
+  const candidates: { start: number; gaps: [number, number][] }[] = [];
+
+  // 左右の隣のちょうど中間
+  const before = row.filter(o => o.start + o.length <= m.start + threshold).pop();
+  const after = row.find(o => o.start >= m.start + m.length - threshold);
+  if (before && after) {
+    const start = (before.start + before.length + after.start - m.length) / 2;
+    if (start >= before.start + before.length) {
+      candidates.push({ start, gaps: [[before.start + before.length, start], [start + m.length, after.start]] });
+    }
+  }
+
+  // 隣り合う二枚と同じ間隔で、その外側に続ける
+  for (let i = 0; i < row.length - 1; i++) {
+    const a = row[i];
+    const b = row[i + 1];
+    const gap = b.start - (a.start + a.length);
+    if (gap <= 0) continue;
+    candidates.push({ start: b.start + b.length + gap, gaps: [[a.start + a.length, b.start], [b.start + b.length, b.start + b.length + gap]] });
+    candidates.push({ start: a.start - gap - m.length, gaps: [[a.start - gap, a.start], [a.start + a.length, b.start]] });
+  }
+
+  const best = candidates
+    .filter(c => Math.abs(c.start - m.start) <= threshold)
+    .sort((a, b) => Math.abs(a.start - m.start) - Math.abs(b.start - m.start))[0];
+  if (!best) return null;
+  return { start: best.start, guides: best.gaps.map(([from, to]) => segment(axis, from, to, cross, cross, 'spacing')) };
+};
+
+/**
+ * Snaps a rect being dragged. On each axis, alignment with a neighbour's edge or center wins,
+ * then equal spacing with neighbours in the same row or column, then the grid.
+ */
+export const snapRect = (moving: Rect, others: Rect[], options: SnapOptions): SnapResult => {
+  const guides: SnapGuide[] = [];
+  let rect = moving;
+  const snapAxis = (axis: Axis): number => {
+    const current = axis === 'x' ? rect.x : rect.y;
+    if (options.guides) {
+      const aligned = snapAlignment(rect, others, axis, options.threshold)
+        || snapSpacing(rect, others, axis, options.threshold);
+      if (aligned) {
+        guides.push(...aligned.guides);
+        return aligned.start;
+      }
+    }
+    return options.grid ? Math.round(current / options.grid) * options.grid : current;
+  };
+  // 横方向を先に決め、縦方向のガイドは吸着後の位置から引く
+  rect = { ...rect, x: snapAxis('x') };
+  rect = { ...rect, y: snapAxis('y') };
+  return { x: rect.x, y: rect.y, guides };
+};
+
+// リサイズ中の右端・下端をグリッドに合わせた大きさ
+export const snapSizeToGrid = (rect: Rect, grid: number) => ({
+  width: Math.max(grid, Math.round((rect.x + rect.width) / grid) * grid - rect.x),
+  height: Math.max(grid, Math.round((rect.y + rect.height) / grid) * grid - rect.y)
+});
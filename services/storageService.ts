@@ -1,75 +1,347 @@
-
-import { SavedBoard, BoardState } from '../types';
+import { SavedBoard, BoardState, BoardSummary } from '../types';
+import { blobToDataUrl, dataUrlToBlob, hashBlob, isDataUrl, listImageFields, mapImageFields } from './blobUtils';
 
 const DB_NAME = 'VisualSynthesizerDB';
 const STORE_NAME = 'boards';
-const DB_VERSION = 1;
+const IMAGE_STORE_NAME = 'images';
+// v2: 画像をボードから切り出し、内容ハッシュをキーにしたBlobとして保存する
+const DB_VERSION = 2;
+const LAST_BOARD_KEY = 'resona:lastBoardId';
+const BLOB_REF_PREFIX = 'resona-blob:';
+const GC_DELAY = 5000;
+// ハッシュのキャッシュに保持する画像数の上限（data URLごと保持するため）
+const HASH_CACHE_LIMIT = 200;
+
+interface StoredImage {
+  hash: string;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+}
+
+const isBlobRef = (value: string) => value.startsWith(BLOB_REF_PREFIX);
+
+// ストアから消えた画像の代わりに表示する画像。元の参照に戻せるようハッシュを埋め込む
+const MISSING_IMAGE_PREFIX = 'data:image/svg+xml;charset=utf-8,';
+const MISSING_HASH_PATTERN = /data-missing-hash%3D%22([\w-]+)%22/;
+
+const missingImagePlaceholder = (hash: string) => MISSING_IMAGE_PREFIX + encodeURIComponent(
+  `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256" viewBox="0 0 256 256" data-missing-hash="${hash}">` +
+  '<rect width="256" height="256" fill="#0f172a"/>' +
+  '<path d="M96 96l64 64m0-64l-64 64" stroke="#f43f5e" stroke-width="8" stroke-linecap="round"/>' +
+  '<text x="128" y="200" fill="#94a3b8" font-family="sans-serif" font-size="16" text-anchor="middle">Image missing</text>' +
+  '</svg>'
+);
+
+const missingImageHash = (value: string): string | null =>
+  value.startsWith(MISSING_IMAGE_PREFIX) ? value.match(MISSING_HASH_PATTERN)?.[1] || null : null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+const collectBlobRefs = (state: BoardState, into: Set<string>): Set<string> => {
+  listImageFields(state).forEach((value) => {
+    if (isBlobRef(value)) into.add(value.slice(BLOB_REF_PREFIX.length));
+  });
+  return into;
+};
+
+const previewOf = (state: BoardState): string | undefined => state.images.find(img => img.base64)?.base64;
+
+export const summarizeBoard = (board: SavedBoard): BoardSummary => ({
+  id: board.id,
+  name: board.name,
+  timestamp: board.timestamp,
+  nodeCount: board.state.images.length,
+  preview: previewOf(board.state)
+});
 
 class StorageService {
   private db: IDBDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+  private needsMigration = false;
+  private gcTimer: ReturnType<typeof setTimeout> | null = null;
+  // 自動保存のたびに同じ画像をハッシュし直さないためのキャッシュ
+  private hashByDataUrl = new Map<string, string>();
+  private dataUrlByHash = new Map<string, string>();
 
   async init(): Promise<void> {
     if (this.db) return;
-    return new Promise((resolve, reject) => {
+    if (!this.initPromise) {
+      this.initPromise = this.open().catch((e) => {
+        this.initPromise = null;
+        throw e;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async open(): Promise<void> {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
       const request = indexedDB.open(DB_NAME, DB_VERSION);
-      request.onupgradeneeded = () => {
+      request.onupgradeneeded = (event) => {
         const db = request.result;
         if (!db.objectStoreNames.contains(STORE_NAME)) {
           db.createObjectStore(STORE_NAME, { keyPath: 'id' });
         }
+        if (!db.objectStoreNames.contains(IMAGE_STORE_NAME)) {
+          db.createObjectStore(IMAGE_STORE_NAME, { keyPath: 'hash' });
+        }
+        // v1のボードは画像をdata URLとして内包しているので、オープン後に移行する
+        if (event.oldVersion > 0 && event.oldVersion < 2) {
+          this.needsMigration = true;
+        }
       };
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
+      request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
+    this.db = db;
+    if (this.needsMigration) {
+      await this.migrateInlineImages();
+      this.needsMigration = false;
+    }
   }
 
-  async saveBoard(name: string, state: BoardState, id?: string): Promise<SavedBoard> {
-    await this.init();
-    
+  /**
+   * Moves inline data URLs of v1 boards into the image store.
+   * Hashing is async, so this cannot run inside the versionchange transaction.
+   */
+  private async migrateInlineImages(): Promise<void> {
+    const records = await requestToPromise<SavedBoard[]>(
+      this.db!.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll()
+    );
+    for (const record of records) {
+      const state = await this.dehydrateState(record.state);
+      const transaction = this.db!.transaction([STORE_NAME, IMAGE_STORE_NAME], 'readwrite');
+      this.writeBlobs(transaction, state.blobs);
+      transaction.objectStore(STORE_NAME).put({ ...record, state: state.state });
+      await transactionDone(transaction);
+    }
+  }
+
+  private generateId(): string {
     // Fallback for ID generation if crypto.randomUUID is not available in non-secure contexts
-    const generatedId = typeof crypto.randomUUID === 'function' 
-      ? crypto.randomUUID() 
+    return typeof crypto.randomUUID === 'function'
+      ? crypto.randomUUID()
       : Math.random().toString(36).substring(2) + Date.now().toString(36);
+  }
+
+  // 最近使った順に保持し、上限を超えたら古いものから捨てる
+  private rememberHash(dataUrl: string, hash: string) {
+    this.hashByDataUrl.delete(dataUrl);
+    this.hashByDataUrl.set(dataUrl, hash);
+    this.dataUrlByHash.set(hash, dataUrl);
+    while (this.hashByDataUrl.size > HASH_CACHE_LIMIT) {
+      const [oldestDataUrl, oldestHash] = this.hashByDataUrl.entries().next().value!;
+      this.hashByDataUrl.delete(oldestDataUrl);
+      if (this.dataUrlByHash.get(oldestHash) === oldestDataUrl) this.dataUrlByHash.delete(oldestHash);
+    }
+  }
+
+  private async hashDataUrl(dataUrl: string): Promise<string> {
+    const hash = this.hashByDataUrl.get(dataUrl) || await hashBlob(dataUrlToBlob(dataUrl));
+    this.rememberHash(dataUrl, hash);
+    return hash;
+  }
+
+  // data URLをハッシュ参照に置き換え、参照しているハッシュとdata URLの対応を集める
+  private async dehydrateState(state: BoardState): Promise<{ state: BoardState; blobs: Map<string, string> }> {
+    const blobs = new Map<string, string>();
+    const dehydrated = await mapImageFields(state, async (value) => {
+      // 欠けている画像は元の参照のまま残す
+      const missingHash = missingImageHash(value);
+      if (missingHash) return BLOB_REF_PREFIX + missingHash;
+      if (!isDataUrl(value)) return value;
+      const hash = await this.hashDataUrl(value);
+      blobs.set(hash, value);
+      return BLOB_REF_PREFIX + hash;
+    });
+    return { state: dehydrated, blobs };
+  }
+
+  private async hydrateState(state: BoardState): Promise<BoardState> {
+    // キャッシュは途中で捨てられることがあるので、このボードの分は手元に集めてから置き換える
+    const resolved = new Map<string, string>();
+    const toLoad: string[] = [];
+    collectBlobRefs(state, new Set()).forEach((hash) => {
+      const cached = this.dataUrlByHash.get(hash);
+      if (cached) resolved.set(hash, cached);
+      else toLoad.push(hash);
+    });
+    if (toLoad.length > 0) {
+      const store = this.db!.transaction(IMAGE_STORE_NAME, 'readonly').objectStore(IMAGE_STORE_NAME);
+      const records = await Promise.all(toLoad.map(hash => requestToPromise<StoredImage | undefined>(store.get(hash))));
+      await Promise.all(records.map(async (record, i) => {
+        if (!record) {
+          console.warn(`Image blob ${toLoad[i]} is missing from the store.`);
+          resolved.set(toLoad[i], missingImagePlaceholder(toLoad[i]));
+          return;
+        }
+        const dataUrl = await blobToDataUrl(record.blob);
+        resolved.set(record.hash, dataUrl);
+        this.rememberHash(dataUrl, record.hash);
+      }));
+    }
+    return mapImageFields(state, async (value) => {
+      if (!isBlobRef(value)) return value;
+      const hash = value.slice(BLOB_REF_PREFIX.length);
+      return resolved.get(hash) || missingImagePlaceholder(hash);
+    });
+  }
+
+  private writeBlobs(transaction: IDBTransaction, blobs: Map<string, string>) {
+    const store = transaction.objectStore(IMAGE_STORE_NAME);
+    // 同一内容は同一キーになるため、既存レコードはデコードも上書きもせずスキップする
+    blobs.forEach((dataUrl, hash) => {
+      const existing = store.getKey(hash);
+      existing.onsuccess = () => {
+        if (existing.result !== undefined) return;
+        const blob = dataUrlToBlob(dataUrl);
+        const record: StoredImage = { hash, blob, mimeType: blob.type, size: blob.size, createdAt: Date.now() };
+        store.put(record);
+      };
+    });
+  }
+
+  private async hydrateBoard(record: SavedBoard): Promise<SavedBoard> {
+    return { ...record, state: await this.hydrateState(record.state) };
+  }
+
+  async saveBoard(name: string, state: BoardState, id?: string): Promise<SavedBoard> {
+    await this.init();
 
     const board: SavedBoard = {
-      id: id || generatedId,
+      id: id || this.generateId(),
       name,
       timestamp: Date.now(),
       state
     };
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(board);
-      request.onsuccess = () => resolve(board);
-      request.onerror = () => reject(request.error);
-    });
+    const dehydrated = await this.dehydrateState(state);
+    const transaction = this.db!.transaction([STORE_NAME, IMAGE_STORE_NAME], 'readwrite');
+    this.writeBlobs(transaction, dehydrated.blobs);
+    transaction.objectStore(STORE_NAME).put({ ...board, state: dehydrated.state });
+    await transactionDone(transaction);
+
+    // 盤面から外れた画像は少し遅れて回収する
+    this.scheduleGarbageCollection();
+    return board;
   }
 
-  async getAllBoards(): Promise<SavedBoard[]> {
+  /**
+   * Lists the saved boards for the library. Records stay dehydrated; only each board's preview image
+   * is read from the image store, so opening the library does not load every image.
+   */
+  async getBoardSummaries(): Promise<BoardSummary[]> {
     await this.init();
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.getAll();
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
-    });
+    const transaction = this.db!.transaction([STORE_NAME, IMAGE_STORE_NAME], 'readonly');
+    const records = await requestToPromise<SavedBoard[]>(transaction.objectStore(STORE_NAME).getAll());
+    const imageStore = transaction.objectStore(IMAGE_STORE_NAME);
+    return Promise.all(records.map(async (record) => {
+      const summary = summarizeBoard(record);
+      if (!summary.preview || !isBlobRef(summary.preview)) return summary;
+      const hash = summary.preview.slice(BLOB_REF_PREFIX.length);
+      const cached = this.dataUrlByHash.get(hash);
+      if (cached) return { ...summary, preview: cached };
+      const stored = await requestToPromise<StoredImage | undefined>(imageStore.get(hash));
+      return { ...summary, preview: stored ? await blobToDataUrl(stored.blob) : missingImagePlaceholder(hash) };
+    }));
+  }
+
+  async getBoard(id: string): Promise<SavedBoard | null> {
+    await this.init();
+    const record = await requestToPromise<SavedBoard | undefined>(
+      this.db!.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(id)
+    );
+    return record ? this.hydrateBoard(record) : null;
+  }
+
+  async hasBoard(id: string): Promise<boolean> {
+    await this.init();
+    const key = await requestToPromise(
+      this.db!.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getKey(id)
+    );
+    return key !== undefined;
+  }
+
+  async renameBoard(id: string, name: string): Promise<SavedBoard> {
+    const board = await this.getBoard(id);
+    if (!board) throw new Error(`Board ${id} not found.`);
+    return this.saveBoard(name, board.state, id);
+  }
+
+  async duplicateBoard(id: string, name?: string): Promise<SavedBoard> {
+    const board = await this.getBoard(id);
+    if (!board) throw new Error(`Board ${id} not found.`);
+    return this.saveBoard(name || `${board.name} (Copy)`, board.state);
+  }
+
+  // 最後に開いていたボードはlocalStorageに記録する（IndexedDBのオープン前に参照できるように）
+  getLastBoardId(): string | null {
+    try {
+      return localStorage.getItem(LAST_BOARD_KEY);
+    } catch {
+      return null;
+    }
+  }
+
+  setLastBoardId(id: string | null): void {
+    try {
+      if (id) localStorage.setItem(LAST_BOARD_KEY, id);
+      else localStorage.removeItem(LAST_BOARD_KEY);
+    } catch {
+      // Storage may be unavailable (private mode, sandboxed iframe)
+    }
   }
 
   async deleteBoard(id: string): Promise<void> {
     await this.init();
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(id);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+    const transaction = this.db!.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+    await transactionDone(transaction);
+    if (this.getLastBoardId() === id) this.setLastBoardId(null);
+    this.scheduleGarbageCollection();
+  }
+
+  private scheduleGarbageCollection() {
+    if (this.gcTimer !== null) clearTimeout(this.gcTimer);
+    this.gcTimer = setTimeout(() => {
+      this.gcTimer = null;
+      this.collectGarbage().catch(e => console.error("Image garbage collection failed", e));
+    }, GC_DELAY);
+  }
+
+  /**
+   * Deletes image blobs that no saved board references any more.
+   * Returns the number of removed blobs.
+   */
+  async collectGarbage(): Promise<number> {
+    await this.init();
+    const transaction = this.db!.transaction([STORE_NAME, IMAGE_STORE_NAME], 'readwrite');
+    const records = await requestToPromise<SavedBoard[]>(transaction.objectStore(STORE_NAME).getAll());
+    const referenced = new Set<string>();
+    records.forEach(record => collectBlobRefs(record.state, referenced));
+
+    const imageStore = transaction.objectStore(IMAGE_STORE_NAME);
+    const hashes = await requestToPromise<IDBValidKey[]>(imageStore.getAllKeys());
+    const orphaned = hashes.map(String).filter(hash => !referenced.has(hash));
+    orphaned.forEach((hash) => {
+      imageStore.delete(hash);
+      const dataUrl = this.dataUrlByHash.get(hash);
+      if (dataUrl) this.hashByDataUrl.delete(dataUrl);
+      this.dataUrlByHash.delete(hash);
     });
+    await transactionDone(transaction);
+    return orphaned.length;
   }
 }
 
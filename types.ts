@@ -1,23 +1,110 @@
 
+export interface InfluenceOverride {
+  // 幾何学的なスコアに掛ける手動の倍率
+  multiplier: number;
+  // 距離に関係なく常に合成に含める
+  pinned: boolean;
+  // 合成から除外する
+  excluded: boolean;
+  // この画像の特徴から遠ざけるよう指示する
+  negative: boolean;
+}
+
+export const DEFAULT_INFLUENCE: InfluenceOverride = {
+  multiplier: 1,
+  pinned: false,
+  excluded: false,
+  negative: false
+};
+
+export type ImageRotation = 0 | 90 | 180 | 270;
+
+// 元画像を書き換えない切り抜き・回転・反転。切り抜き→回転→反転の順に適用する
+export interface ImageEdit {
+  // 元画像（向き補正後）に対する0〜1の比率で表した切り抜き範囲
+  crop: Rect;
+  // 時計回り
+  rotation: ImageRotation;
+  flipX: boolean;
+  flipY: boolean;
+}
+
+export const IDENTITY_EDIT: ImageEdit = {
+  crop: { x: 0, y: 0, width: 1, height: 1 },
+  rotation: 0,
+  flipX: false,
+  flipY: false
+};
+
+export type ReferenceKind = 'image' | 'text';
+
 export interface ReferenceImage {
   id: string;
+  // 省略時は画像。テキストのコンセプトノードはbase64が空で、textに語句を持つ
+  kind?: ReferenceKind;
+  text?: string;
+  // カメラのライブカード。合成のたびにカメラの現在のフレームで撮り直す
+  live?: boolean;
+  // 切り抜き・回転・反転（base64は元画像のまま残し、payloadに適用済みの画像を持つ）
+  edit?: ImageEdit;
+  // 注目範囲のマスク（編集後の画像に重ねる、塗った所が不透明なPNG）。切り抜きや回転をやり直すと消える
+  mask?: string;
   file?: File;
+  // 表示・書き出しに使う元画像
   base64: string;
+  // モデルに送る正規化済みの画像（向き補正・縮小済み）。無ければbase64をそのまま送る
+  payload?: string;
   x: number;
   y: number;
   width: number;
   height: number;
   score?: number;
   isGenerating?: boolean;
+  influence?: InfluenceOverride;
+  // エミッターから生成されたバージョンであれば、そのエミッターのID
+  emitterId?: string;
+  // 生成中のプレースホルダーを埋めるジョブのID（保存はされない）
+  jobId?: string;
+  // 同じプロンプトから同時に生成されたバリエーションの共通IDとその中での番号（0始まり）
+  variantGroupId?: string;
+  variantIndex?: number;
   synthesisData?: {
     prompt: string;
-    sources: {
-      thumbnail: string;
-      contribution: number;
-    }[];
+    // レビューで書き換えられた場合、解析が出力した元のプロンプト
+    originalPrompt?: string;
+    // 実際に画像を生成したモデルと、フォールバック前に要求したモデル
+    model?: ImageModel;
+    requestedModel?: ImageModel;
+    // 生成時のアスペクト比とカード幅（作り直すときに同じ形で生成する）
+    aspectRatio?: AspectRatio;
+    size?: number;
+    // 解析に使ったブレンドプリセット（削除・改名されても分かるよう名前も残す）
+    preset?: { id: string; name: string };
+    sources: SynthesisSource[];
   };
 }
 
+export interface SynthesisSource {
+  // 参照元カードのID（系譜機能より前に生成されたカードには無い）
+  id?: string;
+  // 合成時点の参照元画像のスナップショット。元カードが削除されても系譜の表示に使う
+  thumbnail: string;
+  // 参照元がテキストノードであれば、その語句（thumbnailは空）
+  text?: string;
+  contribution: number;
+  negative?: boolean;
+  // 参照元カード自身の親。元カードが削除されてもさらに上の世代をたどれるよう写し取っておく
+  parents?: LineageLink[];
+}
+
+export interface LineageLink {
+  id: string;
+  contribution: number;
+  negative?: boolean;
+}
+
+export const isTextNode = (item: ReferenceImage): boolean => item.kind === 'text';
+
 export interface SynthesisResult {
   prompt: string;
   imageUrl: string;
@@ -25,16 +112,138 @@ export interface SynthesisResult {
 
 export type ImageModel = 'gemini-2.5-flash-image' | 'gemini-3-pro-image-preview' | 'imagen-4.0-generate-001';
 export type AspectRatio = '1:1' | '4:3' | '16:9' | '9:16';
+export type ImageProviderId = 'gemini' | 'mock' | 'local-http';
+export type LocalBackendStyle = 'a1111' | 'generic';
+
+export interface LocalBackendSettings {
+  endpoint: string;
+  apiStyle: LocalBackendStyle;
+  sampler: string;
+  steps: number;
+  // ローカルバックエンドは画像生成のみを担うので、プロンプト解析に使うプロバイダを別に選ぶ
+  promptProvider: Exclude<ImageProviderId, 'local-http'>;
+}
+
+export interface ScoreBand {
+  // 編集中の行を見分けるためのID（プリセット内で一意）
+  id: string;
+  label: string;
+  // この範囲の影響スコア（1〜10）を持つ参照に適用する
+  min: number;
+  max: number;
+  rule: string;
+}
 
-export interface AppSettings {
+/**
+ * A named synthesis strategy: how the analysis step should combine the references into one prompt.
+ */
+export interface BlendPreset {
+  id: string;
+  name: string;
+  // システム指示の中心となる合成方針
+  instruction: string;
+  scoreBands: ScoreBand[];
+  temperature: number;
+}
+
+export type FalloffModel = 'linear' | 'gaussian' | 'inverse-square' | 'step' | 'custom';
+export type DistanceMode = 'center' | 'edge';
+
+export interface InfluenceFieldSettings {
+  influenceRadius: number;
+  falloff: FalloffModel;
+  // center: カード中心からの距離 / edge: カードの最も近い辺からの距離
+  distanceMode: DistanceMode;
+  // 正規化距離0〜1を等間隔に区切った各点でのウェイト（falloffが'custom'のとき使用）
+  customFalloff: number[];
+}
+
+export interface AppSettings extends InfluenceFieldSettings {
+  provider: ImageProviderId;
   model: ImageModel;
   aspectRatio: AspectRatio;
+  localBackend: LocalBackendSettings;
+  // 解析後に一旦止めて、生成前にプロンプトを確認・編集する
+  reviewPrompts: boolean;
+  // 同時に実行する合成ジョブの上限
+  maxConcurrentJobs: number;
+  // 選択中のモデルが使えない・上限に達した場合に順に試すモデル
+  fallbackModels: ImageModel[];
+  // ボードごとに保存されるプリセット一覧と、現在使用中のプリセット
+  blendPresets: BlendPreset[];
+  blendPresetId: string;
+  // ドラッグ中にグリッドや周囲のカードへ吸着させる（Altキーを押している間は無効）
+  snapToGrid: boolean;
+  smartGuides: boolean;
+  // 取り込み時に縮小する、モデルに送る画像の長辺(px)
+  ingestMaxEdge: number;
+}
+
+export interface RequestOptions {
+  // ジョブの取り消し時に進行中のリクエストを中断する
+  signal?: AbortSignal;
+}
+
+export interface SynthesisPromptOptions extends RequestOptions {
+  preset?: BlendPreset;
+}
+
+export interface GenerateImageOptions extends RequestOptions {
+  // 生成先カードの幅（キャンバス座標px）
+  size?: number;
+  // 同じプロンプトから生成するバリエーション数
+  count?: number;
+}
+
+export const getAspectDimensions = (aspectRatio: AspectRatio, size: number): { width: number; height: number } => {
+  if (aspectRatio === '16:9') return { width: size, height: size * (9/16) };
+  if (aspectRatio === '9:16') return { width: size, height: size * (16/9) };
+  if (aspectRatio === '4:3') return { width: size, height: size * (3/4) };
+  return { width: size, height: size };
+};
+
+export interface ViewportTransform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/**
+ * A synthesis target that stays on the board and can be re-fired.
+ * Its own size, aspect ratio, model and radius override the global settings.
+ */
+export interface SynthesisEmitter {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  size: number;
+  aspectRatio: AspectRatio;
+  model: ImageModel;
   influenceRadius: number;
+  // 生成結果のカードID（古い順）
+  versionIds: string[];
+}
+
+/**
+ * A named frame around a set of cards. The frame follows the bounds of its members, and moving it moves them all.
+ */
+export interface BoardGroup {
+  id: string;
+  name: string;
+  memberIds: string[];
+  // 折りたたみ中はメンバーを隠し、見出しだけを表示する
+  collapsed: boolean;
+  // メンバーを個別に採点せず、外接矩形で採点される一つの影響源として扱う
+  combineInfluence: boolean;
 }
 
 export interface BoardState {
   images: ReferenceImage[];
   settings: AppSettings;
+  transform?: ViewportTransform;
+  emitters?: SynthesisEmitter[];
+  groups?: BoardGroup[];
 }
 
 export interface SavedBoard {
@@ -44,19 +253,84 @@ export interface SavedBoard {
   state: BoardState;
 }
 
+// ライブラリの一覧に表示するための要約。画像はプレビューの1枚だけを持つ
+export interface BoardSummary {
+  id: string;
+  name: string;
+  timestamp: number;
+  nodeCount: number;
+  preview?: string;
+}
+
 export enum LoadingStep {
   IDLE = 'IDLE',
   ANALYZING = 'ANALYZING',
+  REVIEWING = 'REVIEWING',
   GENERATING = 'GENERATING',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR'
 }
 
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const getBounds = (rects: Rect[]): Rect | null => {
+  if (rects.length === 0) return null;
+  const left = Math.min(...rects.map(r => r.x));
+  const top = Math.min(...rects.map(r => r.y));
+  const right = Math.max(...rects.map(r => r.x + r.width));
+  const bottom = Math.max(...rects.map(r => r.y + r.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// 盤面に残っているメンバーの外接矩形（メンバーがいなければnull）
+export const getGroupBounds = (group: BoardGroup, images: ReferenceImage[]): Rect | null =>
+  getBounds(images.filter(img => group.memberIds.includes(img.id)));
+
 export const calculateBaseSizeScore = (width: number, height: number): number => {
   const area = width * height;
   return Math.min(5, Math.max(1, area / 40000));
 };
 
+export const DEFAULT_CUSTOM_FALLOFF = [1, 0.8, 0.6, 0.4, 0.2, 0];
+
+const GAUSSIAN_SIGMA = 0.4;
+const INVERSE_SQUARE_K = 24;
+
+/**
+ * Weight at normalized distance t (0 = on target, 1 = at the influence radius).
+ * Every curve starts at 1 and reaches 0 at the radius, so the radius stays a hard cutoff.
+ */
+export const evaluateFalloff = (model: FalloffModel, t: number, customCurve: number[] = DEFAULT_CUSTOM_FALLOFF): number => {
+  if (t >= 1) return 0;
+  const d = Math.max(0, t);
+  switch (model) {
+    case 'gaussian': {
+      const g = (x: number) => Math.exp(-(x * x) / (2 * GAUSSIAN_SIGMA * GAUSSIAN_SIGMA));
+      return (g(d) - g(1)) / (1 - g(1));
+    }
+    case 'inverse-square': {
+      const f = (x: number) => 1 / (1 + INVERSE_SQUARE_K * x * x);
+      return (f(d) - f(1)) / (1 - f(1));
+    }
+    case 'step':
+      return 1;
+    case 'custom': {
+      const points = customCurve.length >= 2 ? customCurve : DEFAULT_CUSTOM_FALLOFF;
+      const pos = d * (points.length - 1);
+      const i = Math.floor(pos);
+      const next = points[Math.min(i + 1, points.length - 1)];
+      return Math.max(0, Math.min(1, points[i] + (next - points[i]) * (pos - i)));
+    }
+    default:
+      return 1 - d;
+  }
+};
+
 export const calculateProximityWeight = (
   imgX: number, 
   imgY: number, 
@@ -64,11 +338,84 @@ export const calculateProximityWeight = (
   imgH: number, 
   targetX: number, 
   targetY: number,
-  radius: number
+  radius: number,
+  field?: Partial<InfluenceFieldSettings>
 ): number => {
-  const centerX = imgX + imgW / 2;
-  const centerY = imgY + imgH / 2;
-  const dist = Math.sqrt(Math.pow(centerX - targetX, 2) + Math.pow(centerY - targetY, 2));
+  let dist: number;
+  if (field?.distanceMode === 'edge') {
+    // ターゲットがカード内にあれば距離0
+    const dx = Math.max(imgX - targetX, 0, targetX - (imgX + imgW));
+    const dy = Math.max(imgY - targetY, 0, targetY - (imgY + imgH));
+    dist = Math.sqrt(dx * dx + dy * dy);
+  } else {
+    const centerX = imgX + imgW / 2;
+    const centerY = imgY + imgH / 2;
+    dist = Math.sqrt(Math.pow(centerX - targetX, 2) + Math.pow(centerY - targetY, 2));
+  }
   if (dist > radius) return 0;
-  return 1 - (dist / radius);
+  return evaluateFalloff(field?.falloff || 'linear', dist / radius, field?.customFalloff);
+};
+
+// ピン留めされた画像は範囲外でも最低この近接ウェイトで扱う
+export const PINNED_PROXIMITY_FLOOR = 0.5;
+
+export interface ScoredReference extends ReferenceImage {
+  score: number;
+  rawWeight: number;
+}
+
+/**
+ * Scores every finished reference against a synthesis target, applying the per-card influence overrides.
+ * Excluded cards, cards in excludeIds and cards outside the radius (unless pinned) are dropped.
+ * Members of a group with combineInfluence share the score of the group bounds and split its weight.
+ * Members of a collapsed group are hidden from the board and do not influence anything.
+ */
+export const scoreReferences = (
+  images: ReferenceImage[],
+  targetX: number,
+  targetY: number,
+  field: InfluenceFieldSettings,
+  excludeIds?: Set<string>,
+  groups: BoardGroup[] = []
+): ScoredReference[] => {
+  const hiddenIds = new Set(groups.filter(group => group.collapsed).flatMap(group => group.memberIds));
+  const candidates = images
+    .filter(img => !img.isGenerating && !img.influence?.excluded && !excludeIds?.has(img.id) && !hiddenIds.has(img.id))
+    // 空のテキストノードは何も伝えないので除外する
+    .filter(img => !isTextNode(img) || !!img.text?.trim());
+
+  const units = new Map<string, { bounds: Rect; share: number }>();
+  groups.forEach((group) => {
+    if (!group.combineInfluence) return;
+    const members = candidates.filter(img => group.memberIds.includes(img.id));
+    const bounds = getBounds(members);
+    if (!bounds) return;
+    members.forEach(img => units.set(img.id, { bounds, share: 1 / members.length }));
+  });
+
+  return candidates
+    .map(img => {
+      const influence = img.influence || DEFAULT_INFLUENCE;
+      const unit = units.get(img.id);
+      const rect = unit?.bounds || img;
+      const sizeScore = calculateBaseSizeScore(rect.width, rect.height);
+      let proxWeight = calculateProximityWeight(rect.x, rect.y, rect.width, rect.height, targetX, targetY, field.influenceRadius, field);
+      if (influence.pinned) proxWeight = Math.max(proxWeight, PINNED_PROXIMITY_FLOOR);
+      const weight = sizeScore * proxWeight * Math.max(0, influence.multiplier);
+      return {
+        ...img,
+        score: Math.max(0, Math.min(10, weight * 2)),
+        rawWeight: weight * (unit?.share ?? 1)
+      };
+    })
+    .filter(img => img.score > 0);
+};
+
+export const calculateContributions = (scored: ScoredReference[]) => {
+  const totalRawWeight = scored.reduce((sum, img) => sum + img.rawWeight, 0);
+  return scored.map(img => ({
+    id: img.id,
+    contribution: totalRawWeight > 0 ? Math.round((img.rawWeight / totalRawWeight) * 100) : 0,
+    negative: img.influence?.negative || undefined
+  }));
 };